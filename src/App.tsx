@@ -1,22 +1,138 @@
-import { useState, useEffect } from "react";
-import { Download, Save, Plus } from "lucide-react";
-import type { BinderLayout, BinderTemplate } from "./types/Binder";
+import { useState, useEffect, useMemo } from "react";
+import {
+  Download,
+  Save,
+  Plus,
+  Undo2,
+  Redo2,
+  Library,
+  Upload,
+  FileSpreadsheet,
+  ClipboardList,
+  Printer,
+  ListChecks,
+  Package,
+  MapPin,
+} from "lucide-react";
+import type {
+  BinderLayout,
+  BinderTemplate,
+  ResolvedImportEntry,
+  UnresolvedImportEntry,
+} from "./types/Binder";
 import type { PokemonCard } from "./types/Card";
+import type { ValueSnapshot } from "./types/Pricing";
 import { DataService } from "./services/DataService";
+import { CardProviderRegistry } from "./services/CardProviderRegistry";
+import { CardCatalogService } from "./services/CardCatalogService";
+import { CollectionService } from "./services/CollectionService";
+import { ValueSnapshotService } from "./services/ValueSnapshotService";
+import { useBinderHistory } from "./hooks/useBinderHistory";
+import { useAutosave } from "./hooks/useAutosave";
 import BinderGrid from "./components/BinderGrid";
 import CardSearch from "./components/CardSearch";
+import BinderLibrary from "./components/BinderLibrary";
+import ImportDialog from "./components/ImportDialog";
+import CsvDialog from "./components/CsvDialog";
+import DecklistDialog from "./components/DecklistDialog";
+import PrintLayout from "./components/PrintLayout";
+import SetBinderDialog from "./components/SetBinderDialog";
+import CollectionDialog from "./components/CollectionDialog";
+import FindCardDialog from "./components/FindCardDialog";
+import BinderValueDialog from "./components/BinderValueDialog";
+import { placeImportEntries } from "./utils/binderPlacement";
+import { getSetCompletion } from "./utils/binderStats";
+import { findPriceMoves, valueBinder } from "./utils/valuation";
+import { formatPrice } from "./utils/pricing";
 import "./styles/App.css";
 
+// Stand-in shown until a card's details have been fetched
+const createPlaceholderCard = (cardId: string): PokemonCard => ({
+  id: cardId,
+  name: "Loading...",
+  set: { id: "", name: "", series: "" },
+  number: "",
+  rarity: "",
+  images: { small: "", large: "" },
+});
+
 function App() {
-  const [currentBinder, setCurrentBinder] = useState<BinderLayout | null>(null);
+  const {
+    binder: currentBinder,
+    updateBinder,
+    resetBinder,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+  } = useBinderHistory();
   const [templates, setTemplates] = useState<BinderTemplate[]>([]);
   const [availableBinders, setAvailableBinders] = useState<string[]>([]);
+  const [binderNames, setBinderNames] = useState<Map<string, string>>(
+    new Map()
+  );
   const [cards, setCards] = useState<Map<string, PokemonCard>>(new Map());
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showCsv, setShowCsv] = useState(false);
+  const [showDecklist, setShowDecklist] = useState(false);
+  const [showSetBinder, setShowSetBinder] = useState(false);
+  const [showCollection, setShowCollection] = useState(false);
+  const [showFind, setShowFind] = useState(false);
+  const [showValue, setShowValue] = useState(false);
+  const [valueSnapshots, setValueSnapshots] = useState<ValueSnapshot[]>([]);
+  const [snapshotVersion, setSnapshotVersion] = useState(0);
+  // Page open in BinderGrid, so imports fill it first like added cards do
+  const [gridPage, setGridPage] = useState(1);
+  const [focusSlot, setFocusSlot] = useState<{
+    binderId: string;
+    slotIndex: number;
+  } | null>(null);
+  const [showPrint, setShowPrint] = useState(false);
+  const { isDirty, lastSavedAt, saveError, saveNow, markSaved } = useAutosave(
+    currentBinder,
+    cards,
+    (saved) => {
+      setAvailableBinders((prev) =>
+        prev.includes(saved.id) ? prev : [...prev, saved.id]
+      );
+      setBinderNames((prev) => new Map(prev).set(saved.id, saved.name));
+    }
+  );
 
   useEffect(() => {
     loadInitialData();
   }, []);
 
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), ignored while typing in a field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (
+        target.tagName === "INPUT" ||
+        target.tagName === "TEXTAREA" ||
+        target.isContentEditable
+      ) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
   const loadInitialData = async () => {
     const [binderIds, templateList] = await Promise.all([
       DataService.loadAvailableBinders(),
@@ -25,6 +141,7 @@ function App() {
 
     setAvailableBinders(binderIds);
     setTemplates(templateList);
+    refreshBinderNames();
 
     // Load first available binder or create new one
     if (binderIds.length > 0) {
@@ -34,47 +151,166 @@ function App() {
     }
   };
 
+  const refreshBinderNames = async () => {
+    const summaries = await DataService.loadBinderSummaries();
+    setBinderNames(
+      new Map(summaries.map((summary) => [summary.id, summary.name]))
+    );
+  };
+
+  const refreshBinderList = async () => {
+    setAvailableBinders(await DataService.loadAvailableBinders());
+    await refreshBinderNames();
+  };
+
   const loadBinder = async (binderId: string) => {
     const binder = await DataService.loadBinder(binderId);
     if (binder) {
-      setCurrentBinder(binder);
-
-      // Load all cards used in this binder
-      const cardIds = binder.cardPositions
-        .filter((pos) => pos.cardId)
-        .map((pos) => pos.cardId!);
-
-      const newCards = new Map(cards);
-      for (const cardId of cardIds) {
-        if (!newCards.has(cardId)) {
-          // For now, we'll need to search for the card to get its data
-          // In a real app, you'd want to store card data with the binder
-          newCards.set(cardId, {
-            id: cardId,
-            name: "Loading...",
-            set: { id: "", name: "", series: "" },
-            number: "",
-            rarity: "",
-            images: { small: "", large: "" },
-          });
+      resetBinder(binder);
+      markSaved(binder);
+
+      // Fill the card map from the snapshot saved with the binder
+      const storedCards = DataService.getStoredCards(binder);
+      const cardIds = [
+        ...new Set(
+          binder.cardPositions
+            .filter((pos) => pos.cardId)
+            .map((pos) => pos.cardId!)
+        ),
+      ];
+
+      const missingIds = cardIds.filter(
+        (cardId) => !storedCards.has(cardId) && !cards.has(cardId)
+      );
+      setCards((prev) => {
+        const newCards = new Map(prev);
+        for (const cardId of cardIds) {
+          const stored = storedCards.get(cardId);
+          if (stored) {
+            newCards.set(cardId, stored);
+          } else if (!newCards.has(cardId)) {
+            newCards.set(cardId, createPlaceholderCard(cardId));
+          }
         }
+        return newCards;
+      });
+
+      // Keep placed cards available offline
+      const snapshotCards = [...storedCards.values()];
+      CardCatalogService.saveCards(snapshotCards);
+      CardCatalogService.cacheImages(snapshotCards);
+
+      // Fetch anything the snapshot didn't cover in the background. A due
+      // value snapshot refetches every card so it records current prices.
+      if (ValueSnapshotService.isSnapshotDue(binder.id)) {
+        snapshotCurrentPrices(binder, storedCards, cardIds);
+      } else {
+        fetchCards(missingIds);
       }
-      setCards(newCards);
     }
   };
 
+  const snapshotCurrentPrices = async (
+    binder: BinderLayout,
+    knownCards: Map<string, PokemonCard>,
+    cardIds: string[]
+  ) => {
+    const fetched = await fetchCards(cardIds);
+    // Offline, the stored prices would only repeat the last snapshot
+    if (fetched.length === 0) return;
+
+    const latestCards = new Map(knownCards);
+    for (const card of fetched) {
+      latestCards.set(card.id, card);
+    }
+    const valuation = valueBinder(
+      binder,
+      latestCards,
+      CollectionService.getCopyMap()
+    );
+    if (valuation.pricedCount === 0) return;
+    ValueSnapshotService.takeSnapshot(binder.id, valuation);
+    setSnapshotVersion((version) => version + 1);
+  };
+
+  const fetchCards = async (cardIds: string[]): Promise<PokemonCard[]> => {
+    if (cardIds.length === 0) return [];
+
+    const { cards: fetched, failedIds } =
+      await CardProviderRegistry.getProvider().getCards(cardIds);
+    if (failedIds.length > 0) {
+      console.warn(`Could not load cards: ${failedIds.join(", ")}`);
+    }
+    if (fetched.length === 0) return [];
+
+    CardCatalogService.cacheImages(fetched);
+    setCards((prev) => {
+      const newCards = new Map(prev);
+      for (const card of fetched) {
+        newCards.set(card.id, card);
+      }
+      return newCards;
+    });
+    return fetched;
+  };
+
   const createNewBinder = (templateId: string) => {
     try {
       const newBinder = DataService.createBinderFromTemplate(
         templateId,
         templates
       );
-      setCurrentBinder(newBinder);
+      resetBinder(newBinder);
+      markSaved(newBinder);
     } catch (error) {
       console.error("Failed to create binder:", error);
     }
   };
 
+  // Ask before throwing away edits that haven't been autosaved yet
+  const confirmDiscardChanges = (): boolean =>
+    !isDirty ||
+    window.confirm(
+      `"${currentBinder?.name}" has unsaved changes. Discard them and continue?`
+    );
+
+  // False when the user chose to keep editing the open binder
+  const switchToBinder = (binderId: string): boolean => {
+    if (binderId === currentBinder?.id) return true;
+    if (!confirmDiscardChanges()) return false;
+    loadBinder(binderId);
+    return true;
+  };
+
+  const startNewBinder = (templateId: string) => {
+    if (!confirmDiscardChanges()) return;
+    createNewBinder(templateId);
+  };
+
+  const handleLibraryOpen = (binderId: string) => {
+    setShowLibrary(false);
+    switchToBinder(binderId);
+  };
+
+  const handleLibraryRename = async (binderId: string, name: string) => {
+    await DataService.renameBinder(binderId, name);
+    // Keep the open binder in sync so autosave doesn't restore the old name
+    if (currentBinder?.id === binderId) {
+      updateBinder(
+        { ...currentBinder, name, updatedAt: new Date().toISOString() },
+        "Rename binder"
+      );
+    }
+  };
+
+  const handleLibraryDelete = (binderId: string) => {
+    DataService.deleteBinder(binderId);
+    if (currentBinder?.id === binderId) {
+      resetBinder(null);
+      markSaved(null);
+    }
+  };
+
   const handleCardSelect = (card: PokemonCard) => {
     if (!currentBinder) return;
 
@@ -83,6 +319,10 @@ function App() {
     newCards.set(card.id, card);
     setCards(newCards);
 
+    // Placed cards (and their images) stay available offline
+    CardCatalogService.saveCards([card]);
+    CardCatalogService.cacheImages([card]);
+
     // Use the BinderGrid's handleAddCard function
     if (
       typeof window !== "undefined" &&
@@ -92,19 +332,131 @@ function App() {
     }
   };
 
-  const saveBinder = () => {
-    if (currentBinder) {
-      DataService.saveBinder(currentBinder);
-      // Update available binders list
-      if (!availableBinders.includes(currentBinder.id)) {
-        setAvailableBinders([...availableBinders, currentBinder.id]);
+  // Place imported cards into the open binder (as one undoable step) or into
+  // a new binder built from a template. Returns the cards that didn't fit.
+  const importCards = (
+    entries: ResolvedImportEntry[],
+    templateId: string | null,
+    name: string
+  ): UnresolvedImportEntry[] => {
+    const importedCards = entries.map((entry) => entry.card);
+    CardCatalogService.saveCards(importedCards);
+    CardCatalogService.cacheImages(importedCards);
+    setCards((prev) => {
+      const newCards = new Map(prev);
+      for (const card of importedCards) {
+        newCards.set(card.id, card);
       }
+      return newCards;
+    });
+
+    if (templateId === null) {
+      if (!currentBinder) return [];
+      const { cardPositions, unplaced } = placeImportEntries(
+        currentBinder,
+        entries,
+        gridPage
+      );
+      updateBinder(
+        {
+          ...currentBinder,
+          cardPositions,
+          updatedAt: new Date().toISOString(),
+        },
+        `Import ${entries.length - unplaced.length} cards`
+      );
+      return unplaced;
     }
+
+    const created = DataService.createBinderFromTemplate(templateId, templates);
+    const { cardPositions, unplaced } = placeImportEntries(created, entries);
+    const binder = { ...created, name, cardPositions };
+    DataService.saveBinder(
+      binder,
+      new Map(importedCards.map((card) => [card.id, card]))
+    );
+    refreshBinderList();
+    switchToBinder(binder.id);
+    return unplaced;
+  };
+
+  const createSetBinder = (
+    binder: BinderLayout,
+    setCardList: PokemonCard[]
+  ) => {
+    CardCatalogService.saveCards(setCardList);
+    setCards((prev) => {
+      const newCards = new Map(prev);
+      for (const card of setCardList) {
+        newCards.set(card.id, card);
+      }
+      return newCards;
+    });
+    DataService.saveBinder(
+      binder,
+      new Map(setCardList.map((card) => [card.id, card]))
+    );
+    refreshBinderList();
+    switchToBinder(binder.id);
   };
 
+  const addToCollection = (card: PokemonCard) => {
+    CardCatalogService.saveCards([card]);
+    const prices = card.tcgplayer?.prices;
+    CollectionService.addCopy(card.id, {
+      variant: prices?.holofoil && !prices.normal ? "holofoil" : "normal",
+    });
+    console.log(`📦 Added ${card.name} to collection`);
+  };
+
+  const currentBinderId = currentBinder?.id;
+  useEffect(() => {
+    setValueSnapshots(
+      currentBinderId ? ValueSnapshotService.getSnapshots(currentBinderId) : []
+    );
+  }, [currentBinderId, snapshotVersion]);
+
+  const valuation = useMemo(
+    () =>
+      currentBinder
+        ? valueBinder(currentBinder, cards, CollectionService.getCopyMap())
+        : null,
+    [currentBinder, cards]
+  );
+  const lastSnapshot = valueSnapshots[valueSnapshots.length - 1];
+  const priceMoves =
+    lastSnapshot && valuation
+      ? findPriceMoves(
+          lastSnapshot,
+          valuation,
+          ValueSnapshotService.getAlertThreshold()
+        )
+      : [];
+
+  const takeValueSnapshot = () => {
+    if (!currentBinder || !valuation) return;
+    ValueSnapshotService.takeSnapshot(currentBinder.id, valuation);
+    setSnapshotVersion((version) => version + 1);
+  };
+
+  const refreshPrices = async () => {
+    if (!currentBinder) return;
+    await fetchCards([
+      ...new Set(
+        currentBinder.cardPositions
+          .filter((pos) => pos.cardId)
+          .map((pos) => pos.cardId!)
+      ),
+    ]);
+  };
+
+  const setCompletion = currentBinder
+    ? getSetCompletion(currentBinder, cards)
+    : [];
+
   const exportBinder = () => {
     if (currentBinder) {
-      DataService.exportBinderForGitHub(currentBinder);
+      DataService.exportBinderForGitHub(currentBinder, cards);
     }
   };
 
@@ -113,11 +465,27 @@ function App() {
       <header className="app-header">
         <div className="header-left">
           <h1>🎴 Pokémon Binder Builder</h1>
+          {currentBinder && (
+            <span
+              className={`save-status ${
+                saveError ? "error" : isDirty ? "unsaved" : "saved"
+              }`}
+              title={saveError || undefined}
+            >
+              {saveError
+                ? "⚠️ Save failed"
+                : isDirty
+                ? "● Unsaved changes"
+                : lastSavedAt
+                ? `✓ Saved ${lastSavedAt.toLocaleTimeString()}`
+                : "✓ Saved"}
+            </span>
+          )}
         </div>
 
         <div className="controls">
           <select
-            onChange={(e) => e.target.value && createNewBinder(e.target.value)}
+            onChange={(e) => e.target.value && startNewBinder(e.target.value)}
             value=""
           >
             <option value="">Create New Binder...</option>
@@ -130,23 +498,100 @@ function App() {
 
           {availableBinders.length > 0 && (
             <select
-              onChange={(e) => e.target.value && loadBinder(e.target.value)}
+              onChange={(e) => e.target.value && switchToBinder(e.target.value)}
               value={currentBinder?.id || ""}
             >
               <option value="">Load Binder...</option>
               {availableBinders.map((binderId) => (
                 <option key={binderId} value={binderId}>
-                  {binderId.replace("binder-", "Binder ")}
+                  {binderId === currentBinder?.id
+                    ? currentBinder.name
+                    : binderNames.get(binderId) ||
+                      binderId.replace("binder-", "Binder ")}
                 </option>
               ))}
             </select>
           )}
 
-          <button onClick={saveBinder} disabled={!currentBinder}>
+          <button onClick={() => setShowLibrary(true)} title="Binder library">
+            <Library size={16} />
+            Library
+          </button>
+
+          <button onClick={() => setShowImport(true)} title="Import binders">
+            <Upload size={16} />
+            Import
+          </button>
+
+          <button
+            onClick={undo}
+            disabled={!canUndo}
+            title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : "Undo (Ctrl+Z)"}
+          >
+            <Undo2 size={16} />
+          </button>
+
+          <button
+            onClick={redo}
+            disabled={!canRedo}
+            title={
+              redoLabel
+                ? `Redo ${redoLabel} (Ctrl+Shift+Z)`
+                : "Redo (Ctrl+Shift+Z)"
+            }
+          >
+            <Redo2 size={16} />
+          </button>
+
+          <button onClick={() => setShowCsv(true)} title="CSV import/export">
+            <FileSpreadsheet size={16} />
+            CSV
+          </button>
+
+          <button
+            onClick={() => setShowDecklist(true)}
+            title="Add cards from a decklist"
+          >
+            <ClipboardList size={16} />
+            Decklist
+          </button>
+
+          <button
+            onClick={() => setShowSetBinder(true)}
+            disabled={templates.length === 0}
+            title="New binder with a slot for every card in a set"
+          >
+            <ListChecks size={16} />
+            Set Binder
+          </button>
+
+          <button
+            onClick={() => setShowFind(true)}
+            title="Find which binder and page holds a card"
+          >
+            <MapPin size={16} />
+            Find
+          </button>
+
+          <button onClick={() => setShowCollection(true)} title="Owned cards">
+            <Package size={16} />
+            Collection
+          </button>
+
+          <button onClick={saveNow} disabled={!currentBinder}>
             <Save size={16} />
             Save
           </button>
 
+          <button
+            onClick={() => setShowPrint(true)}
+            disabled={!currentBinder}
+            title="Print preview"
+          >
+            <Printer size={16} />
+            Print
+          </button>
+
           <button onClick={exportBinder} disabled={!currentBinder}>
             <Download size={16} />
             Export
@@ -154,9 +599,128 @@ function App() {
         </div>
       </header>
 
+      {showLibrary && (
+        <BinderLibrary
+          currentBinderId={currentBinder?.id || null}
+          onOpen={handleLibraryOpen}
+          onRename={handleLibraryRename}
+          onDelete={handleLibraryDelete}
+          onChanged={refreshBinderList}
+          onClose={() => setShowLibrary(false)}
+        />
+      )}
+
+      {showImport && (
+        <ImportDialog
+          existingIds={availableBinders}
+          onImported={(binders) => {
+            refreshBinderList();
+            // An overwritten open binder must be reloaded, or autosave
+            // would write the old layout back over the import
+            if (binders.some((binder) => binder.id === currentBinder?.id)) {
+              loadBinder(currentBinder!.id);
+            }
+          }}
+          onOpen={(binderId) => {
+            setShowImport(false);
+            switchToBinder(binderId);
+          }}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+
+      {showCsv && (
+        <CsvDialog
+          binder={currentBinder}
+          templates={templates}
+          onExport={() =>
+            currentBinder && DataService.exportBinderAsCsv(currentBinder, cards)
+          }
+          onImport={importCards}
+          onClose={() => setShowCsv(false)}
+        />
+      )}
+
+      {showDecklist && (
+        <DecklistDialog
+          binder={currentBinder}
+          templates={templates}
+          onImport={importCards}
+          onClose={() => setShowDecklist(false)}
+        />
+      )}
+
+      {showSetBinder && (
+        <SetBinderDialog
+          templates={templates}
+          onCreate={createSetBinder}
+          onClose={() => setShowSetBinder(false)}
+        />
+      )}
+
+      {showCollection && (
+        <CollectionDialog
+          binder={currentBinder}
+          cards={cards}
+          onLinkBinder={(cardPositions, label) =>
+            currentBinder &&
+            updateBinder(
+              {
+                ...currentBinder,
+                cardPositions,
+                updatedAt: new Date().toISOString(),
+              },
+              label
+            )
+          }
+          onClose={() => setShowCollection(false)}
+        />
+      )}
+
+      {showFind && (
+        <FindCardDialog
+          binder={currentBinder}
+          cards={cards}
+          onJump={({ binderId, slotIndex }) => {
+            setShowFind(false);
+            if (switchToBinder(binderId)) {
+              setFocusSlot({ binderId, slotIndex });
+            }
+          }}
+          onClose={() => setShowFind(false)}
+        />
+      )}
+
+      {showValue && currentBinder && valuation && (
+        <BinderValueDialog
+          binder={currentBinder}
+          valuation={valuation}
+          cards={cards}
+          snapshots={valueSnapshots}
+          onSnapshot={takeValueSnapshot}
+          onRefreshPrices={refreshPrices}
+          onShowSlot={(slotIndex) => {
+            setShowValue(false);
+            setFocusSlot({ binderId: currentBinder.id, slotIndex });
+          }}
+          onClose={() => setShowValue(false)}
+        />
+      )}
+
+      {showPrint && currentBinder && (
+        <PrintLayout
+          binder={currentBinder}
+          cards={cards}
+          onClose={() => setShowPrint(false)}
+        />
+      )}
+
       <div className="app-content">
         <aside className="sidebar">
-          <CardSearch onCardSelect={handleCardSelect} />
+          <CardSearch
+            onCardSelect={handleCardSelect}
+            onAddToCollection={addToCollection}
+          />
 
           {currentBinder && (
             <div className="binder-stats">
@@ -169,6 +733,60 @@ function App() {
                 }{" "}
                 / {currentBinder.cardPositions.length}
               </p>
+              {setCompletion.map((set) => (
+                <p key={set.setId} title={`${set.total - set.owned} missing`}>
+                  {set.setName}: {set.owned} / {set.total} ({set.percent}%)
+                </p>
+              ))}
+              {valuation && (
+                <>
+                  <p title={`${valuation.pricedCount} cards priced`}>
+                    Value: {formatPrice(valuation.total)}
+                  </p>
+                  {lastSnapshot && (
+                    <p>
+                      Since{" "}
+                      {new Date(lastSnapshot.takenAt).toLocaleDateString()}:{" "}
+                      {valuation.total >= lastSnapshot.total ? "+" : "−"}
+                      {formatPrice(
+                        Math.abs(valuation.total - lastSnapshot.total)
+                      )}
+                    </p>
+                  )}
+                  {priceMoves.length > 0 && (
+                    <p
+                      className="price-alert"
+                      onClick={() => setShowValue(true)}
+                    >
+                      ⚠️ {priceMoves.length} card
+                      {priceMoves.length === 1 ? "" : "s"} moved{" "}
+                      {ValueSnapshotService.getAlertThreshold()}%+ since the
+                      last snapshot
+                    </p>
+                  )}
+                  {valuation.pageTotals.length > 1 && (
+                    <details className="page-values">
+                      <summary>Value per page</summary>
+                      {valuation.pageTotals.map((total, index) => (
+                        <p key={index}>
+                          Page {index + 1}: {formatPrice(total)}
+                        </p>
+                      ))}
+                    </details>
+                  )}
+                  <div className="stats-actions">
+                    <button onClick={() => setShowValue(true)}>
+                      Most valuable
+                    </button>
+                    <button
+                      onClick={takeValueSnapshot}
+                      title="Record today's value to compare later"
+                    >
+                      Snapshot
+                    </button>
+                  </div>
+                </>
+              )}
               <p>Template: {currentBinder.template}</p>
               <p>
                 Last Updated:{" "}
@@ -182,8 +800,11 @@ function App() {
           {currentBinder ? (
             <BinderGrid
               binder={currentBinder}
-              onBinderUpdate={setCurrentBinder}
+              onBinderUpdate={updateBinder}
               cards={cards}
+              focusSlot={focusSlot}
+              onFocusHandled={() => setFocusSlot(null)}
+              onPageChange={setGridPage}
             />
           ) : (
             <div className="empty-state">
@@ -197,7 +818,7 @@ function App() {
               </p>
               <button
                 onClick={() =>
-                  templates.length > 0 && createNewBinder(templates[0].id)
+                  templates.length > 0 && startNewBinder(templates[0].id)
                 }
                 disabled={templates.length === 0}
                 className="create-first-binder"
@@ -1,4 +1,4 @@
-import React, { useState, useMemo, useCallback } from "react";
+import React, { useState, useMemo, useCallback, useRef } from "react";
 import {
   DndContext,
   DragOverlay,
@@ -6,36 +6,146 @@ import {
   useSensors,
   PointerSensor,
   closestCenter,
+  pointerWithin,
+  useDroppable,
+} from "@dnd-kit/core";
+import type {
+  CollisionDetection,
+  DragEndEvent,
+  DragOverEvent,
+  UniqueIdentifier,
 } from "@dnd-kit/core";
-import type { DragEndEvent } from "@dnd-kit/core";
 import { SortableContext, rectSortingStrategy } from "@dnd-kit/sortable";
-import type { BinderLayout, CardPosition } from "../types/Binder";
+import type { BinderLayout } from "../types/Binder";
 import type { PokemonCard } from "../types/Card";
 import BinderSlot from "./BinderSlot";
+import CardImage from "./CardImage";
+import SortBinderDialog from "./SortBinderDialog";
+import CardDetailModal from "./CardDetailModal";
+import { CollectionService } from "../services/CollectionService";
+import { valueBinder } from "../utils/valuation";
+import {
+  addCardsToBinder,
+  clearSlots,
+  createEmptyPage,
+  insertEmptySlots,
+  moveSlotsAsBlock,
+  swapSlots,
+} from "../utils/binderPlacement";
+import { renderBinderPages, downloadCanvas } from "../utils/pageImage";
 import "../styles/BinderGrid.css";
 
-// Create empty slots for a page
-const createEmptyPage = (rows: number, cols: number): CardPosition[] => {
-  return Array.from({ length: rows * cols }, (_, i) => ({
-    cardId: null,
-    row: Math.floor(i / cols),
-    col: i % cols,
-    isEmpty: true,
-  }));
-};
-
 interface BinderGridProps {
   binder: BinderLayout;
-  onBinderUpdate: (updatedBinder: BinderLayout) => void;
+  onBinderUpdate: (updatedBinder: BinderLayout, label?: string) => void;
   cards: Map<string, PokemonCard>;
+  // Slot to show and select, e.g. after finding a card in another binder
+  focusSlot?: { binderId: string; slotIndex: number } | null;
+  onFocusHandled?: () => void;
+  onPageChange?: (page: number) => void;
+}
+
+type ViewMode = "single" | "spread";
+
+const VIEW_MODE_KEY = "binder-view-mode";
+const SHOW_PRICES_KEY = "binder-show-prices";
+
+// Holding a card over a Prev/Next control or grid edge flips a page this often
+const PAGE_FLIP_DELAY = 700;
+
+// Droppable ids that flip pages instead of receiving a card
+const FLIP_ZONES: Record<string, -1 | 1> = {
+  "flip-prev": -1,
+  "flip-next": 1,
+  "edge-prev": -1,
+  "edge-next": 1,
+};
+
+const isFlipZone = (id: UniqueIdentifier) => String(id) in FLIP_ZONES;
+
+// Flip zones only trigger under the pointer; slots use the nearest center
+const collisionDetection: CollisionDetection = (args) => {
+  const flipHits = pointerWithin({
+    ...args,
+    droppableContainers: args.droppableContainers.filter((c) =>
+      isFlipZone(c.id)
+    ),
+  });
+  if (flipHits.length > 0) return flipHits;
+
+  return closestCenter({
+    ...args,
+    droppableContainers: args.droppableContainers.filter(
+      (c) => !isFlipZone(c.id)
+    ),
+  });
+};
+
+// Prev/Next button that doubles as a drop target for flipping pages mid-drag
+const PageFlipButton: React.FC<{
+  id: string;
+  onClick: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}> = ({ id, onClick, disabled, children }) => {
+  const { setNodeRef, isOver } = useDroppable({ id });
+  return (
+    <button
+      ref={setNodeRef}
+      onClick={onClick}
+      disabled={disabled}
+      className={`nav-btn ${isOver ? "flip-hover" : ""}`}
+    >
+      {children}
+    </button>
+  );
+};
+
+// Strip along the left or right edge of the pages, shown only while dragging
+const PageEdgeZone: React.FC<{ id: string; side: "left" | "right" }> = ({
+  id,
+  side,
+}) => {
+  const { setNodeRef, isOver } = useDroppable({ id });
+  return (
+    <div
+      ref={setNodeRef}
+      className={`page-edge-zone ${side} ${isOver ? "flip-hover" : ""}`}
+    >
+      {side === "left" ? "‹" : "›"}
+    </div>
+  );
+};
+
+// Rubber-band rectangle in client coordinates. `base` is the selection it
+// adds to (shift held when it started).
+interface SelectionBand {
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+  base: Set<number>;
 }
 
 const BinderGrid: React.FC<BinderGridProps> = ({
   binder,
   onBinderUpdate,
   cards,
+  focusSlot,
+  onFocusHandled,
+  onPageChange,
 }) => {
   const [activeCard, setActiveCard] = useState<PokemonCard | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [flipDirection, setFlipDirection] = useState<-1 | 1 | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [selectionAnchor, setSelectionAnchor] = useState<number | null>(null);
+  const [band, setBand] = useState<SelectionBand | null>(null);
+  const [moveTarget, setMoveTarget] = useState({ page: "", slot: "" });
+  const [isDraggingSelection, setIsDraggingSelection] = useState(false);
+  const [showSortDialog, setShowSortDialog] = useState(false);
+  const [detailCard, setDetailCard] = useState<PokemonCard | null>(null);
+  const pagesAreaRef = useRef<HTMLDivElement>(null);
   const [page, setPage] = useState(1);
   const [notification, setNotification] = useState<string>("");
   const [isEditingTitle, setIsEditingTitle] = useState(false);
@@ -44,10 +154,40 @@ const BinderGrid: React.FC<BinderGridProps> = ({
   const [clearDialogType, setClearDialogType] = useState<"page" | "binder">(
     "page"
   );
+  const [isExportingImage, setIsExportingImage] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode>(() =>
+    localStorage.getItem(VIEW_MODE_KEY) === "spread" ? "spread" : "single"
+  );
+  const [showPrices, setShowPrices] = useState(
+    () => localStorage.getItem(SHOW_PRICES_KEY) === "true"
+  );
   const pageSize = binder.dimensions.rows * binder.dimensions.cols;
   const totalPages = Math.ceil(binder.cardPositions.length / pageSize);
   const maxPage = binder.maxPage || 1;
 
+  // Like a physical binder, a spread shows pages 2n (left) and 2n+1 (right),
+  // so page 1 sits alone on the right. Page 0 or pages past the end are blank.
+  const spreadStart = page % 2 === 0 ? page : page - 1;
+  const spreadPages = useMemo(
+    () => (viewMode === "spread" ? [spreadStart, spreadStart + 1] : [page]),
+    [viewMode, spreadStart, page]
+  );
+  const visiblePages = useMemo(
+    () => spreadPages.filter((p) => p >= 1 && p <= totalPages),
+    [spreadPages, totalPages]
+  );
+  const visibleLabel = visiblePages.join("–");
+
+  // Page shown after moving one page (or spread) back or forward
+  const stepPage = useCallback(
+    (from: number, direction: -1 | 1) => {
+      if (viewMode !== "spread") return from + direction;
+      const start = from % 2 === 0 ? from : from - 1;
+      return direction === 1 ? start + 2 : start - 1;
+    },
+    [viewMode]
+  );
+
   const sensors = useSensors(
     useSensor(PointerSensor, {
       activationConstraint: {
@@ -58,25 +198,289 @@ const BinderGrid: React.FC<BinderGridProps> = ({
 
   const slotIds = useMemo(
     () =>
-      binder.cardPositions
-        .slice((page - 1) * pageSize, page * pageSize)
-        .map((_, idx) => `slot-${(page - 1) * pageSize + idx}`),
-    [binder.cardPositions, page, pageSize]
+      visiblePages.flatMap((pageNumber) =>
+        binder.cardPositions
+          .slice((pageNumber - 1) * pageSize, pageNumber * pageSize)
+          .map((_, idx) => `slot-${(pageNumber - 1) * pageSize + idx}`)
+      ),
+    [binder.cardPositions, visiblePages, pageSize]
+  );
+
+  // Market price per slot, only worked out while badges are shown
+  const slotPrices = useMemo(() => {
+    if (!showPrices) return null;
+    return new Map(
+      valueBinder(binder, cards, CollectionService.getCopyMap()).slots.map(
+        (slot) => [slot.slotIndex, slot.price]
+      )
+    );
+  }, [showPrices, binder, cards]);
+
+  // Selected slot indexes in binder order, ignoring any an undo removed
+  const selectedIndexes = useMemo(
+    () =>
+      [...selected]
+        .filter((index) => index < binder.cardPositions.length)
+        .sort((a, b) => a - b),
+    [selected, binder.cardPositions.length]
+  );
+
+  // A single selected card can be linked to one of its owned copies
+  const linkIndex = selectedIndexes.length === 1 ? selectedIndexes[0] : -1;
+  const linkCardId =
+    linkIndex !== -1 ? binder.cardPositions[linkIndex].cardId : null;
+  const linkCopies = useMemo(
+    () => (linkCardId ? CollectionService.getCopiesOfCard(linkCardId) : []),
+    [linkCardId]
   );
 
+  const clearSelection = useCallback(() => {
+    setSelected(new Set());
+    setSelectionAnchor(null);
+  }, []);
+
+  // A different binder means different slots
+  React.useEffect(() => {
+    clearSelection();
+  }, [binder.id, clearSelection]);
+
+  // Runs after the reset above, so a jump into a newly opened binder sticks
+  React.useEffect(() => {
+    if (!focusSlot || focusSlot.binderId !== binder.id) return;
+    setPage(Math.floor(focusSlot.slotIndex / pageSize) + 1);
+    setSelected(new Set([focusSlot.slotIndex]));
+    setSelectionAnchor(focusSlot.slotIndex);
+    onFocusHandled?.();
+  }, [focusSlot, binder.id, pageSize, onFocusHandled]);
+
+  React.useEffect(() => {
+    onPageChange?.(page);
+  }, [page, onPageChange]);
+
+  // Click selects one slot, shift-click extends from the last clicked slot
+  // (across pages), Ctrl/Cmd-click toggles
+  const handleSlotSelect = (slotIndex: number, e: React.MouseEvent) => {
+    if (e.shiftKey && selectionAnchor !== null) {
+      const from = Math.min(selectionAnchor, slotIndex);
+      const to = Math.max(selectionAnchor, slotIndex);
+      setSelected(
+        new Set(Array.from({ length: to - from + 1 }, (_, i) => from + i))
+      );
+      return;
+    }
+
+    if (e.ctrlKey || e.metaKey) {
+      const next = new Set(selected);
+      if (next.has(slotIndex)) {
+        next.delete(slotIndex);
+      } else {
+        next.add(slotIndex);
+      }
+      setSelected(next);
+    } else {
+      setSelected(new Set([slotIndex]));
+    }
+    setSelectionAnchor(slotIndex);
+  };
+
+  // Rubber-band selection starts on the space around the slots
+  const handleAreaPointerDown = (e: React.PointerEvent) => {
+    if (
+      e.button !== 0 ||
+      (e.target as HTMLElement).closest(".binder-slot, button")
+    ) {
+      return;
+    }
+    setBand({
+      startX: e.clientX,
+      startY: e.clientY,
+      x: e.clientX,
+      y: e.clientY,
+      base: e.shiftKey ? new Set(selected) : new Set(),
+    });
+  };
+
+  const isBanding = band !== null;
+  React.useEffect(() => {
+    if (!isBanding) return;
+    const handleMove = (e: PointerEvent) =>
+      setBand(
+        (current) => current && { ...current, x: e.clientX, y: e.clientY }
+      );
+    const handleUp = () => setBand(null);
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+    return () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+    };
+  }, [isBanding]);
+
+  React.useEffect(() => {
+    if (!band || !pagesAreaRef.current) return;
+    const left = Math.min(band.startX, band.x);
+    const right = Math.max(band.startX, band.x);
+    const top = Math.min(band.startY, band.y);
+    const bottom = Math.max(band.startY, band.y);
+
+    const hits = new Set(band.base);
+    pagesAreaRef.current
+      .querySelectorAll<HTMLElement>("[data-slot-id]")
+      .forEach((el) => {
+        const rect = el.getBoundingClientRect();
+        if (
+          rect.left < right &&
+          rect.right > left &&
+          rect.top < bottom &&
+          rect.bottom > top
+        ) {
+          hits.add(parseInt(el.dataset.slotId!.split("-")[1]));
+        }
+      });
+    setSelected(hits);
+  }, [band]);
+
+  React.useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") clearSelection();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [clearSelection]);
+
+  const moveSelection = (target: number, followToPage: boolean) => {
+    const cardPositions = moveSlotsAsBlock(binder, selectedIndexes, target);
+    if (!cardPositions) {
+      setNotification(
+        `Cannot move: the selection would run past page ${maxPage}.`
+      );
+      return;
+    }
+
+    onBinderUpdate(
+      {
+        ...binder,
+        cardPositions,
+        updatedAt: new Date().toISOString(),
+      },
+      `Move ${selectedIndexes.length} slots`
+    );
+    setSelected(new Set(selectedIndexes.map((_, offset) => target + offset)));
+    setSelectionAnchor(target);
+    if (followToPage) setPage(Math.floor(target / pageSize) + 1);
+  };
+
+  const handleMoveSelectionTo = () => {
+    const targetPage = parseInt(moveTarget.page, 10);
+    const targetSlot = parseInt(moveTarget.slot || "1", 10);
+    if (
+      !(
+        targetPage >= 1 &&
+        targetPage <= maxPage &&
+        targetSlot >= 1 &&
+        targetSlot <= pageSize
+      )
+    ) {
+      setNotification(
+        `Pick a page from 1 to ${maxPage} and a slot from 1 to ${pageSize}.`
+      );
+      return;
+    }
+    setNotification("");
+    moveSelection((targetPage - 1) * pageSize + targetSlot - 1, true);
+  };
+
+  const handleClearSelection = () => {
+    onBinderUpdate(
+      {
+        ...binder,
+        cardPositions: clearSlots(binder.cardPositions, selectedIndexes),
+        updatedAt: new Date().toISOString(),
+      },
+      `Clear ${selectedIndexes.length} slots`
+    );
+    clearSelection();
+  };
+
+  const handleLinkCopy = (copyId: string) => {
+    const pos = { ...binder.cardPositions[linkIndex] };
+    if (copyId) {
+      pos.copyId = copyId;
+    } else {
+      delete pos.copyId;
+    }
+    const newCardPositions = [...binder.cardPositions];
+    newCardPositions[linkIndex] = pos;
+    onBinderUpdate(
+      {
+        ...binder,
+        cardPositions: newCardPositions,
+        updatedAt: new Date().toISOString(),
+      },
+      copyId ? "Link slot to owned copy" : "Unlink slot from owned copy"
+    );
+  };
+
+  const handleInsertEmptySlots = () => {
+    const cardPositions = insertEmptySlots(
+      binder,
+      selectedIndexes[0],
+      selectedIndexes.length
+    );
+    if (!cardPositions) {
+      setNotification(
+        `Cannot insert: the cards after it would run past page ${maxPage}.`
+      );
+      return;
+    }
+
+    onBinderUpdate(
+      {
+        ...binder,
+        cardPositions,
+        updatedAt: new Date().toISOString(),
+      },
+      selectedIndexes.length === 1
+        ? "Insert empty slot"
+        : `Insert ${selectedIndexes.length} empty slots`
+    );
+    clearSelection();
+  };
+
   const handleDragStart = (event: any) => {
+    setIsDragging(true);
     const slotIndex = parseInt(event.active.id.split("-")[1]);
+    setIsDraggingSelection(
+      selected.has(slotIndex) && selectedIndexes.length > 1
+    );
     const position = binder.cardPositions[slotIndex];
     if (position.cardId) {
       setActiveCard(cards.get(position.cardId) || null);
     }
   };
 
+  const handleDragOver = (event: DragOverEvent) => {
+    const overId = event.over?.id;
+    setFlipDirection(
+      overId !== undefined && isFlipZone(overId)
+        ? FLIP_ZONES[String(overId)]
+        : null
+    );
+  };
+
+  const handleDragCancel = () => {
+    setIsDragging(false);
+    setIsDraggingSelection(false);
+    setActiveCard(null);
+    setFlipDirection(null);
+  };
+
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
-    setActiveCard(null);
+    handleDragCancel();
 
-    if (!over || active.id === over.id) {
+    // Dropping on a flip zone just leaves the card where it was
+    if (!over || active.id === over.id || isFlipZone(over.id)) {
       return;
     }
 
@@ -87,92 +491,79 @@ const BinderGrid: React.FC<BinderGridProps> = ({
       return;
     }
 
-    const activePos = binder.cardPositions[activeIndex];
-    const overPos = binder.cardPositions[overIndex];
-
-    const newCardPositions = [...binder.cardPositions];
-    newCardPositions[activeIndex] = { ...overPos };
-    newCardPositions[overIndex] = { ...activePos };
+    // Dragging part of a selection moves the whole block, keeping the
+    // dragged card under the pointer
+    if (isDraggingSelection) {
+      const offset = selectedIndexes.indexOf(activeIndex);
+      moveSelection(Math.max(overIndex - offset, 0), false);
+      return;
+    }
 
-    onBinderUpdate({
-      ...binder,
-      cardPositions: newCardPositions,
-      updatedAt: new Date().toISOString(),
-    });
+    onBinderUpdate(
+      {
+        ...binder,
+        cardPositions: swapSlots(binder.cardPositions, activeIndex, overIndex),
+        updatedAt: new Date().toISOString(),
+      },
+      "Move card"
+    );
   };
 
+  // Keep flipping while a dragged card is held over a flip zone. The dragged
+  // slot can scroll out of view; the DragOverlay keeps it under the pointer.
+  React.useEffect(() => {
+    if (flipDirection === null) return;
+    const intervalId = setInterval(() => {
+      setPage((current) =>
+        Math.min(Math.max(stepPage(current, flipDirection), 1), totalPages)
+      );
+    }, PAGE_FLIP_DELAY);
+    return () => clearInterval(intervalId);
+  }, [flipDirection, stepPage, totalPages]);
+
   const handleAddCard = useCallback(
     (card: PokemonCard) => {
       setNotification("");
-      let newCardPositions = [...binder.cardPositions];
-      let newPage = page;
-      const startIdx = (page - 1) * pageSize;
-      let addedToCurrentPage = false;
-
-      for (let i = startIdx; i < startIdx + pageSize && i < newCardPositions.length; i++) {
-        if (newCardPositions[i].isEmpty) {
-          newCardPositions[i] = {
-            ...newCardPositions[i],
-            cardId: card.id,
-            isEmpty: false,
-          };
-          addedToCurrentPage = true;
-          break;
-        }
-      }
+      const { cardPositions, placedIndexes } = addCardsToBinder(
+        binder,
+        [card.id],
+        page
+      );
 
-      if (!addedToCurrentPage) {
-        let foundEmptySlot = false;
-        for (let i = 0; i < newCardPositions.length; i++) {
-          if (newCardPositions[i].isEmpty) {
-            newCardPositions[i] = {
-              ...newCardPositions[i],
-              cardId: card.id,
-              isEmpty: false,
-            };
-            newPage = Math.floor(i / pageSize) + 1;
-            foundEmptySlot = true;
-            break;
-          }
-        }
-
-        if (!foundEmptySlot) {
-          if (totalPages >= maxPage) {
-            setNotification(`Cannot add card: binder is full (max ${maxPage} pages).`);
-            return;
-          }
-
-          const { rows, cols } = binder.dimensions;
-          const newSlots = createEmptyPage(rows, cols);
-          newSlots[0] = {
-            ...newSlots[0],
-            cardId: card.id,
-            isEmpty: false,
-          };
-          newCardPositions = [...newCardPositions, ...newSlots];
-          newPage = totalPages + 1;
-        }
+      if (placedIndexes.length === 0) {
+        setNotification(
+          `Cannot add card: binder is full (max ${maxPage} pages).`
+        );
+        return;
       }
 
-      onBinderUpdate({
-        ...binder,
-        cardPositions: newCardPositions,
-        updatedAt: new Date().toISOString(),
-      });
+      onBinderUpdate(
+        {
+          ...binder,
+          cardPositions,
+          updatedAt: new Date().toISOString(),
+        },
+        `Add ${card.name}`
+      );
 
-      setPage(newPage);
+      setPage(Math.floor(placedIndexes[0] / pageSize) + 1);
       setNotification("");
     },
-    [binder, page, totalPages, onBinderUpdate, maxPage]
+    [binder, page, pageSize, onBinderUpdate, maxPage]
   );
 
   const handleTitleSave = useCallback(() => {
-    onBinderUpdate({
-      ...binder,
-      name: tempTitle,
-      updatedAt: new Date().toISOString(),
-    });
     setIsEditingTitle(false);
+    if (tempTitle === binder.name) return;
+
+    onBinderUpdate(
+      {
+        ...binder,
+        name: tempTitle,
+        updatedAt: new Date().toISOString(),
+      },
+      "Rename binder"
+    );
   }, [binder, tempTitle, onBinderUpdate]);
 
   const handleTitleCancel = useCallback(() => {
@@ -181,60 +572,172 @@ const BinderGrid: React.FC<BinderGridProps> = ({
   }, [binder.name]);
 
   const handleClearPage = useCallback(() => {
-    const pageSize = binder.dimensions.rows * binder.dimensions.cols;
-    const startIdx = (page - 1) * pageSize;
-    const endIdx = page * pageSize;
-
-    const newCardPositions = [...binder.cardPositions];
-    for (let i = startIdx; i < endIdx && i < newCardPositions.length; i++) {
-      newCardPositions[i] = {
-        ...newCardPositions[i],
-        cardId: null,
-        isEmpty: true,
-      };
-    }
+    const pageIndexes = visiblePages.flatMap((pageNumber) =>
+      Array.from(
+        { length: pageSize },
+        (_, i) => (pageNumber - 1) * pageSize + i
+      )
+    );
+    const newCardPositions = clearSlots(binder.cardPositions, pageIndexes);
 
-    onBinderUpdate({
-      ...binder,
-      cardPositions: newCardPositions,
-      updatedAt: new Date().toISOString(),
-    });
+    onBinderUpdate(
+      {
+        ...binder,
+        cardPositions: newCardPositions,
+        updatedAt: new Date().toISOString(),
+      },
+      `Clear page ${visibleLabel}`
+    );
 
     setShowClearDialog(false);
-    setNotification(`Page ${page} cleared successfully!`);
+    setNotification(`Page ${visibleLabel} cleared. Press Ctrl+Z to undo.`);
     setTimeout(() => setNotification(""), 3000);
-  }, [binder, page, onBinderUpdate]);
+  }, [binder, visiblePages, visibleLabel, pageSize, onBinderUpdate]);
 
   const handleClearBinder = useCallback(() => {
-    const newCardPositions = binder.cardPositions.map((pos) => ({
-      ...pos,
-      cardId: null,
-      isEmpty: true,
-    }));
-
-    onBinderUpdate({
-      ...binder,
-      cardPositions: newCardPositions,
-      updatedAt: new Date().toISOString(),
-    });
+    const newCardPositions = clearSlots(
+      binder.cardPositions,
+      binder.cardPositions.keys()
+    );
+
+    onBinderUpdate(
+      {
+        ...binder,
+        cardPositions: newCardPositions,
+        updatedAt: new Date().toISOString(),
+      },
+      "Clear binder"
+    );
 
     setPage(1);
     setShowClearDialog(false);
-    setNotification("Entire binder cleared successfully!");
+    setNotification("Entire binder cleared. Press Ctrl+Z to undo.");
     setTimeout(() => setNotification(""), 3000);
   }, [binder, onBinderUpdate]);
 
+  const exportPageImage = useCallback(
+    async (allPages: boolean) => {
+      setIsExportingImage(true);
+      try {
+        const pageNumbers = allPages
+          ? Array.from({ length: totalPages }, (_, i) => i + 1)
+          : visiblePages;
+        const canvas = await renderBinderPages(binder, cards, pageNumbers);
+        await downloadCanvas(
+          canvas,
+          allPages
+            ? `${binder.id}-pages.png`
+            : `${binder.id}-page-${visibleLabel}.png`
+        );
+      } catch (error) {
+        console.error("Page image export failed:", error);
+        setNotification("Could not export the page image.");
+      } finally {
+        setIsExportingImage(false);
+      }
+    },
+    [binder, cards, visiblePages, visibleLabel, totalPages]
+  );
+
   const openClearDialog = useCallback((type: "page" | "binder") => {
     setClearDialogType(type);
     setShowClearDialog(true);
   }, []);
 
+  // Undo can remove pages - keep the current page in range
+  React.useEffect(() => {
+    if (page > totalPages && totalPages > 0) {
+      setPage(totalPages);
+    }
+  }, [page, totalPages]);
+
   React.useEffect(() => {
     if (typeof window !== "undefined") {
       (window as any).handleAddCardToBinder = handleAddCard;
     }
   }, [handleAddCard]);
 
+  const bandOrigin = band
+    ? pagesAreaRef.current?.getBoundingClientRect()
+    : null;
+
+  const renderPage = (pageNumber: number) => {
+    if (pageNumber < 1 || pageNumber > totalPages) {
+      return (
+        <div key={`blank-${pageNumber}`} className="binder-page blank">
+          <span>{pageNumber < 1 ? "Inside cover" : "No page yet"}</span>
+        </div>
+      );
+    }
+
+    return (
+      <div key={pageNumber} className="binder-page">
+        {viewMode === "spread" && (
+          <div className="binder-page-number">Page {pageNumber}</div>
+        )}
+        <div
+          className="binder-grid"
+          style={{
+            gridTemplateColumns: `repeat(${binder.dimensions.cols}, 1fr)`,
+            gridTemplateRows: `repeat(${binder.dimensions.rows}, 1fr)`,
+          }}
+        >
+          {binder.cardPositions
+            .slice((pageNumber - 1) * pageSize, pageNumber * pageSize)
+            .map((position, idx) => {
+              const slotIndex = (pageNumber - 1) * pageSize + idx;
+              const card = position.cardId ? cards.get(position.cardId) : null;
+
+              return (
+                <BinderSlot
+                  key={`slot-${slotIndex}`}
+                  id={`slot-${slotIndex}`}
+                  card={card || null}
+                  selected={selected.has(slotIndex)}
+                  onSelect={(e) => handleSlotSelect(slotIndex, e)}
+                  status={position.status}
+                  price={slotPrices?.get(slotIndex)}
+                  onShowDetails={
+                    card?.set.id ? () => setDetailCard(card) : undefined
+                  }
+                  onToggleStatus={() => {
+                    const planned = position.status === "planned";
+                    const newCardPositions = [...binder.cardPositions];
+                    newCardPositions[slotIndex] = {
+                      ...position,
+                      status: planned ? "owned" : "planned",
+                    };
+                    onBinderUpdate(
+                      {
+                        ...binder,
+                        cardPositions: newCardPositions,
+                        updatedAt: new Date().toISOString(),
+                      },
+                      `Mark ${card?.name || "card"} ${
+                        planned ? "owned" : "missing"
+                      }`
+                    );
+                  }}
+                  onRemoveCard={() => {
+                    onBinderUpdate(
+                      {
+                        ...binder,
+                        cardPositions: clearSlots(binder.cardPositions, [
+                          slotIndex,
+                        ]),
+                        updatedAt: new Date().toISOString(),
+                      },
+                      `Remove ${card?.name || "card"}`
+                    );
+                  }}
+                />
+              );
+            })}
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="binder-container">
       {notification && (
@@ -259,151 +762,325 @@ const BinderGrid: React.FC<BinderGridProps> = ({
             autoFocus
           />
         ) : (
-          <h2 onClick={() => setIsEditingTitle(true)}>{binder.name}</h2>
+          <h2
+            onClick={() => {
+              setTempTitle(binder.name);
+              setIsEditingTitle(true);
+            }}
+          >
+            {binder.name}
+          </h2>
         )}
         <span className="binder-info">
           {binder.dimensions.rows}×{binder.dimensions.cols} • {binder.template}
         </span>
       </div>
 
-      <div className="page-navigation">
-        <div className="nav-controls">
-          <button
-            onClick={() => {
-              setNotification("");
-              setPage(page > 1 ? page - 1 : 1);
-            }}
-            disabled={page === 1}
-            className="nav-btn"
-          >
-            ← Prev
-          </button>
-          <span className="page-info">
-            Page {page} of {totalPages}
-          </span>
-          <button
-            onClick={() => {
-              setNotification("");
-              if (page === totalPages) {
-                if (totalPages >= maxPage) {
-                  setNotification(`Cannot add new page: binder is full (max ${maxPage} pages).`);
-                  return;
+      <DndContext
+        sensors={sensors}
+        collisionDetection={collisionDetection}
+        onDragStart={handleDragStart}
+        onDragOver={handleDragOver}
+        onDragEnd={handleDragEnd}
+        onDragCancel={handleDragCancel}
+      >
+        <div className="page-navigation">
+          <div className="nav-controls">
+            <PageFlipButton
+              id="flip-prev"
+              onClick={() => {
+                setNotification("");
+                const prevPage = stepPage(page, -1);
+                setPage(prevPage > 1 ? prevPage : 1);
+              }}
+              disabled={viewMode === "spread" ? spreadStart <= 1 : page === 1}
+            >
+              ← Prev
+            </PageFlipButton>
+            <span className="page-info">
+              Page {visibleLabel} of {totalPages}
+            </span>
+            <PageFlipButton
+              id="flip-next"
+              onClick={() => {
+                setNotification("");
+                const nextPage = stepPage(page, 1);
+                if (nextPage > totalPages) {
+                  if (totalPages >= maxPage) {
+                    setNotification(
+                      `Cannot add new page: binder is full (max ${maxPage} pages).`
+                    );
+                    return;
+                  }
+                  const newSlots = createEmptyPage(
+                    binder.dimensions.rows,
+                    binder.dimensions.cols
+                  );
+                  const newCardPositions = [
+                    ...binder.cardPositions,
+                    ...newSlots,
+                  ];
+                  onBinderUpdate(
+                    {
+                      ...binder,
+                      cardPositions: newCardPositions,
+                      updatedAt: new Date().toISOString(),
+                    },
+                    "Add page"
+                  );
+                  setPage(totalPages + 1);
+                } else {
+                  setPage(nextPage);
                 }
-                const newSlots = createEmptyPage(binder.dimensions.rows, binder.dimensions.cols);
-                const newCardPositions = [...binder.cardPositions, ...newSlots];
-                onBinderUpdate({
-                  ...binder,
-                  cardPositions: newCardPositions,
-                  updatedAt: new Date().toISOString(),
-                });
-                setPage(page + 1);
-              } else {
-                setPage(page < totalPages ? page + 1 : totalPages);
+              }}
+            >
+              Next →
+            </PageFlipButton>
+            <button
+              onClick={() => {
+                const next = viewMode === "spread" ? "single" : "spread";
+                localStorage.setItem(VIEW_MODE_KEY, next);
+                setViewMode(next);
+              }}
+              className="nav-btn"
+              title={
+                viewMode === "spread"
+                  ? "Show one page at a time"
+                  : "Show facing pages side by side"
               }
-            }}
-            className="nav-btn"
-          >
-            Next →
-          </button>
-        </div>
+            >
+              {viewMode === "spread" ? "📄 Single" : "📖 Spread"}
+            </button>
+            <button
+              onClick={() => {
+                localStorage.setItem(SHOW_PRICES_KEY, String(!showPrices));
+                setShowPrices(!showPrices);
+              }}
+              className="nav-btn"
+              title={
+                showPrices
+                  ? "Hide market prices"
+                  : "Show each card's market price"
+              }
+            >
+              {showPrices ? "💲 Hide Prices" : "💲 Prices"}
+            </button>
+          </div>
         
-        <div className="clear-controls">
-          <button
-            onClick={() => openClearDialog('page')}
-            className="clear-btn"
-            title="Clear current page"
-          >
-            Clear Page
-          </button>
-          <button
-            onClick={() => openClearDialog('binder')}
-            className="clear-btn danger"
-            title="Clear entire binder"
-          >
-            Clear All
-          </button>
+          <div className="export-controls">
+            <button
+              onClick={() => exportPageImage(false)}
+              disabled={isExportingImage}
+              className="nav-btn"
+              title="Download this page as a PNG"
+            >
+              🖼️ Export Page Image
+            </button>
+            <button
+              onClick={() => exportPageImage(true)}
+              disabled={isExportingImage}
+              className="nav-btn"
+              title="Download every page as one contact sheet PNG"
+            >
+              All Pages
+            </button>
+            <button
+              onClick={() => setShowSortDialog(true)}
+              className="nav-btn"
+              title="Reorder every card in the binder"
+            >
+              ⇅ Sort Binder
+            </button>
+          </div>
+
+          <div className="clear-controls">
+            <button
+              onClick={() => openClearDialog('page')}
+              className="clear-btn"
+              title="Clear current page"
+            >
+              Clear Page
+            </button>
+            <button
+              onClick={() => openClearDialog('binder')}
+              className="clear-btn danger"
+              title="Clear entire binder"
+            >
+              Clear All
+            </button>
+          </div>
         </div>
-      </div>
 
-      {showClearDialog && (
-        <div className="clear-dialog-overlay">
-          <div className="clear-dialog">
-            <h3>Are you sure?</h3>
-            <p>
-              {clearDialogType === 'page' 
-                ? `This will clear all cards from page ${page}.`
-                : 'This will clear ALL cards from the entire binder.'
-              }
-            </p>
-            <div className="dialog-buttons">
-              <button
-                onClick={() => setShowClearDialog(false)}
-                className="dialog-btn cancel"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={clearDialogType === 'page' ? handleClearPage : handleClearBinder}
-                className="dialog-btn confirm"
-              >
-                {clearDialogType === 'page' ? 'Clear Page' : 'Clear All'}
-              </button>
+        {selectedIndexes.length > 0 && (
+          <div className="selection-toolbar">
+            <span className="selection-count">
+              {selectedIndexes.length} selected
+            </span>
+            <label>
+              Move to page
+              <input
+                type="number"
+                min={1}
+                max={maxPage}
+                value={moveTarget.page}
+                onChange={(e) =>
+                  setMoveTarget({ ...moveTarget, page: e.target.value })
+                }
+              />
+            </label>
+            <label>
+              slot
+              <input
+                type="number"
+                min={1}
+                max={pageSize}
+                value={moveTarget.slot}
+                placeholder="1"
+                onChange={(e) =>
+                  setMoveTarget({ ...moveTarget, slot: e.target.value })
+                }
+              />
+            </label>
+            <button
+              onClick={handleMoveSelectionTo}
+              className="nav-btn"
+              disabled={!moveTarget.page}
+            >
+              Move
+            </button>
+            <button
+              onClick={handleInsertEmptySlots}
+              className="nav-btn"
+              title="Shift this slot and everything after it forward"
+            >
+              Insert Empty Slot Here
+            </button>
+            {linkCopies.length > 0 && (
+              <label>
+                Owned copy
+                <select
+                  value={binder.cardPositions[linkIndex].copyId || ""}
+                  onChange={(e) => handleLinkCopy(e.target.value)}
+                >
+                  <option value="">Not linked</option>
+                  {linkCopies.map((copy) => (
+                    <option key={copy.id} value={copy.id}>
+                      {copy.quantity}× {copy.condition}{" "}
+                      {CollectionService.VARIANTS[copy.variant]} (
+                      {copy.language})
+                      {copy.grading
+                        ? ` ${copy.grading.company} ${copy.grading.grade}`
+                        : ""}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <button onClick={handleClearSelection} className="clear-btn">
+              Clear Selected
+            </button>
+            <button
+              onClick={clearSelection}
+              className="clear-btn"
+              title="Deselect (Esc)"
+            >
+              Deselect
+            </button>
+          </div>
+        )}
+
+        {detailCard && (
+          <CardDetailModal
+            card={detailCard}
+            onClose={() => setDetailCard(null)}
+          />
+        )}
+
+        {showSortDialog && (
+          <SortBinderDialog
+            binder={binder}
+            cards={cards}
+            onSort={(cardPositions, label) => {
+              onBinderUpdate(
+                {
+                  ...binder,
+                  cardPositions,
+                  updatedAt: new Date().toISOString(),
+                },
+                label
+              );
+              clearSelection();
+              setPage(1);
+              setShowSortDialog(false);
+            }}
+            onClose={() => setShowSortDialog(false)}
+          />
+        )}
+
+        {showClearDialog && (
+          <div className="clear-dialog-overlay">
+            <div className="clear-dialog">
+              <h3>Are you sure?</h3>
+              <p>
+                {clearDialogType === 'page' 
+                  ? `This will clear all cards from page ${visibleLabel}.`
+                  : 'This will clear ALL cards from the entire binder.'
+                }{' '}
+                You can undo this with Ctrl+Z.
+              </p>
+              <div className="dialog-buttons">
+                <button
+                  onClick={() => setShowClearDialog(false)}
+                  className="dialog-btn cancel"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={clearDialogType === 'page' ? handleClearPage : handleClearBinder}
+                  className="dialog-btn confirm"
+                >
+                  {clearDialogType === 'page' ? 'Clear Page' : 'Clear All'}
+                </button>
+              </div>
             </div>
           </div>
-        </div>
-      )}
+        )}
 
-      <DndContext
-        sensors={sensors}
-        collisionDetection={closestCenter}
-        onDragStart={handleDragStart}
-        onDragEnd={handleDragEnd}
-      >
         <SortableContext items={slotIds} strategy={rectSortingStrategy}>
           <div
-            className="binder-grid"
-            style={{
-              gridTemplateColumns: `repeat(${binder.dimensions.cols}, 1fr)`,
-              gridTemplateRows: `repeat(${binder.dimensions.rows}, 1fr)`,
-            }}
+            ref={pagesAreaRef}
+            className="binder-pages-area"
+            onPointerDown={handleAreaPointerDown}
           >
-            {binder.cardPositions
-              .slice((page - 1) * pageSize, page * pageSize)
-              .map((position, idx) => {
-                const slotIndex = (page - 1) * pageSize + idx;
-                const card = position.cardId ? cards.get(position.cardId) : null;
-                
-                return (
-                  <BinderSlot
-                    key={`slot-${slotIndex}`}
-                    id={`slot-${slotIndex}`}
-                    card={card || null}
-                    onRemoveCard={() => {
-                      const newCardPositions = [...binder.cardPositions];
-                      newCardPositions[slotIndex] = {
-                        ...newCardPositions[slotIndex],
-                        cardId: null,
-                        isEmpty: true,
-                      };
-                      onBinderUpdate({
-                        ...binder,
-                        cardPositions: newCardPositions,
-                        updatedAt: new Date().toISOString(),
-                      });
-                    }}
-                  />
-                );
-              })}
+            {isDragging && <PageEdgeZone id="edge-prev" side="left" />}
+            <div className={`binder-pages ${viewMode}`}>
+              {spreadPages.map(renderPage)}
+            </div>
+            {isDragging && <PageEdgeZone id="edge-next" side="right" />}
+            {band && bandOrigin && (
+              <div
+                className="selection-band"
+                style={{
+                  left: Math.min(band.startX, band.x) - bandOrigin.left,
+                  top: Math.min(band.startY, band.y) - bandOrigin.top,
+                  width: Math.abs(band.x - band.startX),
+                  height: Math.abs(band.y - band.startY),
+                }}
+              />
+            )}
           </div>
         </SortableContext>
         <DragOverlay adjustScale={false}>
           {activeCard && (
             <div className="drag-overlay">
-              <img
+              <CardImage
                 src={activeCard.images.small}
                 alt={activeCard.name}
                 style={{ width: "120px", height: "auto" }}
               />
+              {isDraggingSelection && (
+                <span className="drag-count">{selectedIndexes.length}</span>
+              )}
             </div>
           )}
         </DragOverlay>
@@ -0,0 +1,237 @@
+import React, { useState, useEffect, useMemo, useCallback } from "react";
+import { Copy, Pencil, Trash2, FolderOpen, Loader2 } from "lucide-react";
+import type { BinderSummary } from "../types/Binder";
+import { DataService } from "../services/DataService";
+import Modal from "./Modal";
+import "../styles/BinderLibrary.css";
+
+interface BinderLibraryProps {
+  currentBinderId: string | null;
+  onOpen: (binderId: string) => void;
+  onRename: (binderId: string, name: string) => Promise<void>;
+  onDelete: (binderId: string) => void;
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+type LibrarySort = "updated" | "created" | "name" | "fill";
+
+const BinderLibrary: React.FC<BinderLibraryProps> = ({
+  currentBinderId,
+  onOpen,
+  onRename,
+  onDelete,
+  onChanged,
+  onClose,
+}) => {
+  const [summaries, setSummaries] = useState<BinderSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [sortBy, setSortBy] = useState<LibrarySort>("updated");
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      setSummaries(await DataService.loadBinderSummaries());
+    } catch (error) {
+      console.error("Failed to load binder library:", error);
+      setLoadError("Could not load your binders. Try reopening the library.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const visibleSummaries = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    const filtered = summaries.filter(
+      (summary) =>
+        !term ||
+        summary.name.toLowerCase().includes(term) ||
+        summary.template.toLowerCase().includes(term)
+    );
+
+    return [...filtered].sort((a, b) => {
+      switch (sortBy) {
+        case "name":
+          return a.name.localeCompare(b.name);
+        case "fill":
+          return b.filledSlots - a.filledSlots;
+        case "created":
+          return b.createdAt.localeCompare(a.createdAt);
+        case "updated":
+        default:
+          return b.updatedAt.localeCompare(a.updatedAt);
+      }
+    });
+  }, [summaries, searchTerm, sortBy]);
+
+  const startRename = (summary: BinderSummary) => {
+    setRenamingId(summary.id);
+    setRenameValue(summary.name);
+  };
+
+  const commitRename = async () => {
+    const binderId = renamingId;
+    const name = renameValue.trim();
+    setRenamingId(null);
+    if (!binderId || !name) return;
+
+    await onRename(binderId, name);
+    await refresh();
+    onChanged();
+  };
+
+  const handleDuplicate = async (binderId: string) => {
+    const binder = await DataService.loadBinder(binderId);
+    if (!binder) return;
+    DataService.duplicateBinder(binder);
+    await refresh();
+    onChanged();
+  };
+
+  const handleDelete = async (summary: BinderSummary) => {
+    if (!window.confirm(`Delete "${summary.name}"? This cannot be undone.`)) {
+      return;
+    }
+    onDelete(summary.id);
+    await refresh();
+    onChanged();
+  };
+
+  return (
+    <Modal title="Binder Library" onClose={onClose} wide>
+      <div className="library-toolbar">
+        <input
+          type="text"
+          className="modal-input"
+          placeholder="Search binders..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+        />
+        <select
+          className="modal-select"
+          value={sortBy}
+          onChange={(e) => setSortBy(e.target.value as LibrarySort)}
+        >
+          <option value="updated">Recently updated</option>
+          <option value="created">Recently created</option>
+          <option value="name">Name</option>
+          <option value="fill">Most filled</option>
+        </select>
+      </div>
+
+      {isLoading ? (
+        <div className="library-empty">
+          <Loader2 className="spinner" size={24} />
+        </div>
+      ) : loadError ? (
+        <div className="modal-report">
+          <p className="error">{loadError}</p>
+        </div>
+      ) : visibleSummaries.length === 0 ? (
+        <div className="library-empty">
+          {summaries.length === 0
+            ? "No saved binders yet."
+            : `No binders match "${searchTerm}".`}
+        </div>
+      ) : (
+        <ul className="library-list">
+          {visibleSummaries.map((summary) => {
+            const isCurrent = summary.id === currentBinderId;
+            const readOnly = summary.source === "github";
+
+            return (
+              <li
+                key={summary.id}
+                className={`library-item ${isCurrent ? "current" : ""}`}
+              >
+                <div className="library-cover">
+                  {summary.coverImage ? (
+                    <img src={summary.coverImage} alt="" loading="lazy" />
+                  ) : (
+                    <span>🎴</span>
+                  )}
+                </div>
+
+                <div className="library-details">
+                  {renamingId === summary.id ? (
+                    <input
+                      className="modal-input"
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitRename();
+                        if (e.key === "Escape") setRenamingId(null);
+                      }}
+                      autoFocus
+                    />
+                  ) : (
+                    <h4>
+                      {summary.name}
+                      {isCurrent && <span className="library-tag">Open</span>}
+                      {readOnly && (
+                        <span className="library-tag">GitHub</span>
+                      )}
+                    </h4>
+                  )}
+                  <p>
+                    {summary.template} • {summary.filledSlots} /{" "}
+                    {summary.totalSlots} cards
+                  </p>
+                  <p className="library-date">
+                    Updated {new Date(summary.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+
+                <div className="library-actions">
+                  <button
+                    className="modal-btn"
+                    onClick={() => onOpen(summary.id)}
+                    disabled={isCurrent}
+                    title="Open"
+                  >
+                    <FolderOpen size={14} />
+                  </button>
+                  <button
+                    className="modal-btn"
+                    onClick={() => startRename(summary)}
+                    disabled={readOnly}
+                    title="Rename"
+                  >
+                    <Pencil size={14} />
+                  </button>
+                  <button
+                    className="modal-btn"
+                    onClick={() => handleDuplicate(summary.id)}
+                    title="Duplicate"
+                  >
+                    <Copy size={14} />
+                  </button>
+                  <button
+                    className="modal-btn danger"
+                    onClick={() => handleDelete(summary)}
+                    disabled={readOnly}
+                    title="Delete"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </Modal>
+  );
+};
+
+export default BinderLibrary;
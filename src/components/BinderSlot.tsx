@@ -1,16 +1,37 @@
 import React from "react";
 import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
+import type { SlotStatus } from "../types/Binder";
 import type { PokemonCard } from "../types/Card";
+import CardImage from "./CardImage";
+import { formatPrice } from "../utils/pricing";
 import "../styles/BinderSlot.css";
 
 interface BinderSlotProps {
   id: string;
   card: PokemonCard | null;
   onRemoveCard: (slotId: string) => void;
+  selected?: boolean;
+  onSelect?: (e: React.MouseEvent) => void;
+  status?: SlotStatus; // only set in checklist binders
+  onToggleStatus?: () => void;
+  price?: number | null; // shown as a badge when given
+  onShowDetails?: () => void;
 }
 
-const BinderSlot: React.FC<BinderSlotProps> = ({ id, card, onRemoveCard }) => {
+const BinderSlot: React.FC<BinderSlotProps> = ({
+  id,
+  card,
+  onRemoveCard,
+  selected = false,
+  onSelect,
+  status,
+  onToggleStatus,
+  price,
+  onShowDetails,
+}) => {
+  const isPlanned = !!card && status === "planned";
+
   const {
     attributes,
     listeners,
@@ -31,13 +52,19 @@ const BinderSlot: React.FC<BinderSlotProps> = ({ id, card, onRemoveCard }) => {
       style={style}
       {...attributes}
       {...listeners}
+      data-slot-id={id}
+      onClick={onSelect}
       className={`binder-slot ${card ? "has-card" : "empty"} ${
         isDragging ? "dragging" : ""
-      }`}
+      } ${selected ? "selected" : ""} ${isPlanned ? "planned" : ""}`}
     >
       {card ? (
         <div className="card-container">
-          <img src={card.images.small} alt={card.name} className="card-image" />
+          <CardImage
+            src={card.images.small}
+            alt={card.name}
+            className="card-image"
+          />
           <button
             className="remove-button"
             onClick={(e) => {
@@ -47,6 +74,34 @@ const BinderSlot: React.FC<BinderSlotProps> = ({ id, card, onRemoveCard }) => {
           >
             ×
           </button>
+          {status && onToggleStatus && (
+            <button
+              className="status-button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onToggleStatus();
+              }}
+              title={isPlanned ? "Mark as owned" : "Mark as missing"}
+            >
+              {isPlanned ? "✓" : "↺"}
+            </button>
+          )}
+          {onShowDetails && (
+            <button
+              className="info-button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onShowDetails();
+              }}
+              title="Card details"
+            >
+              i
+            </button>
+          )}
+          {isPlanned && <span className="missing-tag">Missing</span>}
+          {typeof price === "number" && (
+            <span className="price-badge">{formatPrice(price)}</span>
+          )}
           <div className="card-overlay">
             <span className="card-name">{card.name}</span>
           </div>
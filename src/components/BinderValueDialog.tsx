@@ -0,0 +1,274 @@
+import React, { useMemo, useState } from "react";
+import { Camera, Loader2, RefreshCw } from "lucide-react";
+import type { BinderLayout } from "../types/Binder";
+import type { PokemonCard } from "../types/Card";
+import type { ValueSnapshot } from "../types/Pricing";
+import type { BinderValuation, SlotValue } from "../utils/valuation";
+import { findPriceMoves } from "../utils/valuation";
+import { CollectionService } from "../services/CollectionService";
+import { ValueSnapshotService } from "../services/ValueSnapshotService";
+import { formatPrice } from "../utils/pricing";
+import Modal from "./Modal";
+import ValueChart from "./ValueChart";
+import "../styles/BinderValueDialog.css";
+
+interface BinderValueDialogProps {
+  binder: BinderLayout;
+  valuation: BinderValuation;
+  cards: Map<string, PokemonCard>;
+  snapshots: ValueSnapshot[];
+  onSnapshot: () => void;
+  onRefreshPrices: () => Promise<void>;
+  onShowSlot: (slotIndex: number) => void;
+  onClose: () => void;
+}
+
+type ValueSortKey = "price" | "name" | "location";
+
+const COMPARATORS: Record<
+  ValueSortKey,
+  (a: SlotValue, b: SlotValue) => number
+> = {
+  price: (a, b) => (a.price ?? 0) - (b.price ?? 0),
+  name: (a, b) => a.card.name.localeCompare(b.card.name),
+  location: (a, b) => a.slotIndex - b.slotIndex,
+};
+
+const formatChange = (change: number) =>
+  `${change >= 0 ? "+" : "−"}${formatPrice(Math.abs(change))}`;
+
+const BinderValueDialog: React.FC<BinderValueDialogProps> = ({
+  binder,
+  valuation,
+  cards,
+  snapshots,
+  onSnapshot,
+  onRefreshPrices,
+  onShowSlot,
+  onClose,
+}) => {
+  const [sortKey, setSortKey] = useState<ValueSortKey>("price");
+  const [descending, setDescending] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [threshold, setThreshold] = useState(() =>
+    ValueSnapshotService.getAlertThreshold()
+  );
+  // Kept as typed so the field can be cleared; applied on blur
+  const [thresholdText, setThresholdText] = useState(String(threshold));
+  const pageSize = binder.dimensions.rows * binder.dimensions.cols;
+
+  // Unpriced cards stay at the bottom and ties keep binder order, whichever
+  // way the column is sorted
+  const sortedSlots = useMemo(() => {
+    const direction = descending ? -1 : 1;
+    return [...valuation.slots].sort((a, b) => {
+      if (sortKey === "price" && (a.price === null) !== (b.price === null)) {
+        return a.price === null ? 1 : -1;
+      }
+      return (
+        direction * COMPARATORS[sortKey](a, b) || a.slotIndex - b.slotIndex
+      );
+    });
+  }, [valuation.slots, sortKey, descending]);
+
+  const lastSnapshot = snapshots[snapshots.length - 1];
+  const moves = useMemo(
+    () =>
+      lastSnapshot ? findPriceMoves(lastSnapshot, valuation, threshold) : [],
+    [lastSnapshot, valuation, threshold]
+  );
+
+  const applyThreshold = () => {
+    const percent = parseFloat(thresholdText);
+    if (!(percent > 0)) {
+      setThresholdText(String(threshold));
+      return;
+    }
+    setThreshold(percent);
+    setThresholdText(String(percent));
+    ValueSnapshotService.setAlertThreshold(percent);
+  };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    try {
+      await onRefreshPrices();
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const sortBy = (key: ValueSortKey) => {
+    if (key === sortKey) {
+      setDescending(!descending);
+    } else {
+      setSortKey(key);
+      setDescending(key === "price");
+    }
+  };
+
+  const header = (key: ValueSortKey, label: string) => (
+    <th onClick={() => sortBy(key)} className={sortKey === key ? "sorted" : ""}>
+      {label}
+      {sortKey === key && (descending ? " ▼" : " ▲")}
+    </th>
+  );
+
+  return (
+    <Modal
+      title={`${binder.name} Value`}
+      onClose={onClose}
+      wide
+      footer={
+        <>
+          <button
+            className="modal-btn"
+            onClick={handleRefresh}
+            disabled={isRefreshing}
+            title="Fetch current prices for every card"
+          >
+            {isRefreshing ? (
+              <Loader2 className="spinner" size={14} />
+            ) : (
+              <RefreshCw size={14} />
+            )}
+            Refresh prices
+          </button>
+          <button className="modal-btn" onClick={onSnapshot}>
+            <Camera size={14} />
+            Save snapshot
+          </button>
+          <button className="modal-btn primary" onClick={onClose}>
+            Done
+          </button>
+        </>
+      }
+    >
+      <div className="value-summary">
+        <strong>{formatPrice(valuation.total)}</strong>
+        <span>
+          {valuation.pricedCount} of {valuation.slots.length} cards priced
+        </span>
+      </div>
+
+      <div className="value-section">
+        <h4>Value over time</h4>
+        <ValueChart points={snapshots} />
+      </div>
+
+      {lastSnapshot && (
+        <div className="value-section">
+          <h4>
+            Price moves of at least{" "}
+            <input
+              type="number"
+              className="modal-input value-threshold"
+              min={1}
+              value={thresholdText}
+              onChange={(e) => setThresholdText(e.target.value)}
+              onBlur={applyThreshold}
+              onKeyDown={(e) => e.key === "Enter" && applyThreshold()}
+            />
+            %
+          </h4>
+          <p className="value-empty">
+            Since the snapshot of{" "}
+            {new Date(lastSnapshot.takenAt).toLocaleString()}
+          </p>
+          {moves.length === 0 ? (
+            <p className="value-empty">No card moved that much.</p>
+          ) : (
+            <ul className="value-moves">
+              {moves.map((move) => (
+                <li key={`${move.cardId}/${move.variant}`}>
+                  <span>
+                    {cards.get(move.cardId)?.name || move.cardId}
+                    <span className="value-set">
+                      {CollectionService.VARIANTS[move.variant]}
+                    </span>
+                  </span>
+                  <span>
+                    {formatPrice(move.before)} → {formatPrice(move.after)}
+                  </span>
+                  <span className={move.percent >= 0 ? "gain" : "loss"}>
+                    {move.percent >= 0 ? "+" : "−"}
+                    {Math.abs(move.percent).toFixed(1)}%
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {snapshots.length > 0 && (
+        <div className="value-section">
+          <h4>Snapshots</h4>
+          <ul className="value-snapshots">
+            {[...snapshots].reverse().map((snapshot) => {
+              const change = valuation.total - snapshot.total;
+              return (
+                <li key={snapshot.takenAt}>
+                  <span>{new Date(snapshot.takenAt).toLocaleString()}</span>
+                  <span>{formatPrice(snapshot.total)}</span>
+                  <span className={change >= 0 ? "gain" : "loss"}>
+                    {formatChange(change)} since then
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <div className="value-section">
+        <h4>Most valuable cards</h4>
+        {sortedSlots.length === 0 ? (
+          <p className="value-empty">No owned cards in this binder yet.</p>
+        ) : (
+          <table className="value-table">
+            <thead>
+              <tr>
+                {header("name", "Card")}
+                <th>Printing</th>
+                {header("location", "Page / slot")}
+                {header("price", "Market")}
+              </tr>
+            </thead>
+            <tbody>
+              {sortedSlots.map((slot) => (
+                <tr key={slot.slotIndex}>
+                  <td>
+                    {slot.card.name}
+                    <span className="value-set">
+                      {slot.card.set.name} • {slot.card.number}
+                    </span>
+                  </td>
+                  <td>
+                    {slot.variant
+                      ? CollectionService.VARIANTS[slot.variant]
+                      : "—"}
+                  </td>
+                  <td>
+                    <button
+                      className="value-location"
+                      onClick={() => onShowSlot(slot.slotIndex)}
+                      title="Show in binder"
+                    >
+                      {slot.page} / {(slot.slotIndex % pageSize) + 1}
+                    </button>
+                  </td>
+                  <td className="value-price">
+                    {slot.price === null ? "—" : formatPrice(slot.price)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default BinderValueDialog;
@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from "react";
+import type {
+  CardTypeModifier,
+  PokemonCard,
+  TcgPlayerPrice,
+} from "../types/Card";
+import type { CardVariant } from "../types/Collection";
+import { CardProviderRegistry } from "../services/CardProviderRegistry";
+import { CollectionService } from "../services/CollectionService";
+import { formatPrice } from "../utils/pricing";
+import CardImage from "./CardImage";
+import Modal from "./Modal";
+import "../styles/CardDetailModal.css";
+
+interface CardDetailModalProps {
+  card: PokemonCard;
+  onClose: () => void;
+}
+
+const PRICE_FIELDS: (keyof TcgPlayerPrice)[] = ["low", "mid", "high", "market"];
+
+const LEGALITY_FORMATS = ["standard", "expanded", "unlimited"] as const;
+
+const CardDetailModal: React.FC<CardDetailModalProps> = ({ card, onClose }) => {
+  const [details, setDetails] = useState(card);
+
+  // Binders saved before the full model was stored only kept the basics
+  useEffect(() => {
+    setDetails(card);
+    if (card.supertype || !card.set.id) return;
+
+    let cancelled = false;
+    CardProviderRegistry.getProvider()
+      .getCard(card.id)
+      .then((full) => {
+        if (full && !cancelled) setDetails(full);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [card]);
+
+  const prices = Object.entries(details.tcgplayer?.prices || {}) as [
+    CardVariant,
+    TcgPlayerPrice
+  ][];
+  const legalities = details.legalities || details.set.legalities;
+  const formatModifiers = (modifiers: CardTypeModifier[]) =>
+    modifiers.map((m) => `${m.type} ${m.value}`).join(", ");
+  const battleStats = [
+    details.weaknesses && `Weakness: ${formatModifiers(details.weaknesses)}`,
+    details.resistances &&
+      `Resistance: ${formatModifiers(details.resistances)}`,
+    details.retreatCost && `Retreat: ${details.retreatCost.length}`,
+  ].filter((stat): stat is string => !!stat);
+
+  return (
+    <Modal title={details.name} onClose={onClose} wide>
+      <div className="card-detail">
+        <CardImage
+          src={details.images.large || details.images.small}
+          alt={details.name}
+          className="card-detail-image"
+        />
+
+        <div className="card-detail-info">
+          <p className="card-detail-line">
+            {[details.supertype, details.subtypes?.join(" ")]
+              .filter(Boolean)
+              .join(" — ")}
+            {details.hp && (
+              <span className="card-detail-hp">HP {details.hp}</span>
+            )}
+            {details.types?.map((type) => (
+              <span key={type} className="card-detail-tag">
+                {type}
+              </span>
+            ))}
+          </p>
+          {details.evolvesFrom && (
+            <p className="card-detail-muted">
+              Evolves from {details.evolvesFrom}
+            </p>
+          )}
+
+          {details.abilities?.map((ability) => (
+            <div key={ability.name} className="card-detail-block">
+              <h4>
+                <span className="card-detail-tag">{ability.type}</span>
+                {ability.name}
+              </h4>
+              <p>{ability.text}</p>
+            </div>
+          ))}
+
+          {details.attacks?.map((attack) => (
+            <div key={attack.name} className="card-detail-block">
+              <h4>
+                {attack.cost && attack.cost.length > 0 && (
+                  <span className="card-detail-cost">
+                    {attack.cost.join(" · ")}
+                  </span>
+                )}
+                {attack.name}
+                {attack.damage && (
+                  <span className="card-detail-damage">{attack.damage}</span>
+                )}
+              </h4>
+              {attack.text && <p>{attack.text}</p>}
+            </div>
+          ))}
+
+          {details.rules?.map((rule) => (
+            <p key={rule} className="card-detail-muted">
+              {rule}
+            </p>
+          ))}
+
+          {battleStats.length > 0 && (
+            <p className="card-detail-muted">{battleStats.join(" • ")}</p>
+          )}
+
+          {details.flavorText && (
+            <p className="card-detail-flavor">{details.flavorText}</p>
+          )}
+
+          <dl className="card-detail-facts">
+            <dt>Set</dt>
+            <dd>
+              {details.set.name} ({details.set.series})
+              {details.set.releaseDate && `, ${details.set.releaseDate}`}
+            </dd>
+            <dt>Number</dt>
+            <dd>
+              {details.number}
+              {details.set.ptcgoCode && ` • ${details.set.ptcgoCode}`}
+            </dd>
+            <dt>Rarity</dt>
+            <dd>{details.rarity || "—"}</dd>
+            {details.artist && (
+              <>
+                <dt>Artist</dt>
+                <dd>{details.artist}</dd>
+              </>
+            )}
+            {details.regulationMark && (
+              <>
+                <dt>Regulation mark</dt>
+                <dd>{details.regulationMark}</dd>
+              </>
+            )}
+            {details.nationalPokedexNumbers && (
+              <>
+                <dt>Pokédex</dt>
+                <dd>
+                  {details.nationalPokedexNumbers
+                    .map((dex) => `#${dex}`)
+                    .join(", ")}
+                </dd>
+              </>
+            )}
+            <dt>Legal in</dt>
+            <dd>
+              {LEGALITY_FORMATS.filter(
+                (format) => legalities?.[format] === "Legal"
+              )
+                .map((format) => format[0].toUpperCase() + format.slice(1))
+                .join(", ") || "—"}
+            </dd>
+          </dl>
+
+          {prices.length > 0 && (
+            <table className="card-detail-prices">
+              <thead>
+                <tr>
+                  <th>Printing</th>
+                  {PRICE_FIELDS.map((field) => (
+                    <th key={field}>{field}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {prices.map(([variant, price]) => (
+                  <tr key={variant}>
+                    <td>{CollectionService.VARIANTS[variant] || variant}</td>
+                    {PRICE_FIELDS.map((field) => (
+                      <td key={field}>
+                        {price[field] != null
+                          ? formatPrice(price[field]!)
+                          : "—"}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {details.tcgplayer?.url && (
+            <a
+              href={details.tcgplayer.url}
+              target="_blank"
+              rel="noreferrer"
+              className="card-detail-link"
+            >
+              View on TCGplayer
+              {details.tcgplayer.updatedAt &&
+                ` (prices from ${details.tcgplayer.updatedAt})`}
+            </a>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default CardDetailModal;
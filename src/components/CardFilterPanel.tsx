@@ -0,0 +1,166 @@
+import React from "react";
+import type { CardFilters } from "../types/Card";
+
+interface CardFilterPanelProps {
+  filters: CardFilters;
+  onChange: (filters: CardFilters) => void;
+  onApply: () => void;
+  onReset: () => void;
+}
+
+const RARITIES = [
+  "Common",
+  "Uncommon",
+  "Rare",
+  "Rare Holo",
+  "Double Rare",
+  "Ultra Rare",
+  "Illustration Rare",
+  "Special Illustration Rare",
+  "Hyper Rare",
+  "Rare Secret",
+  "ACE SPEC Rare",
+  "Promo",
+];
+
+const SUPERTYPES = ["Pokémon", "Trainer", "Energy"];
+
+const TYPES = [
+  "Colorless",
+  "Darkness",
+  "Dragon",
+  "Fairy",
+  "Fighting",
+  "Fire",
+  "Grass",
+  "Lightning",
+  "Metal",
+  "Psychic",
+  "Water",
+];
+
+const REGULATION_MARKS = ["D", "E", "F", "G", "H", "I"];
+
+const CardFilterPanel: React.FC<CardFilterPanelProps> = ({
+  filters,
+  onChange,
+  onApply,
+  onReset,
+}) => {
+  const update = (key: keyof CardFilters, value: string) => {
+    onChange({ ...filters, [key]: value || undefined });
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") onApply();
+  };
+
+  return (
+    <div className="filter-panel">
+      <div className="filter-grid">
+        <label>
+          Set ID
+          <input
+            type="text"
+            placeholder="e.g. sv3pt5"
+            value={filters.set || ""}
+            onChange={(e) => update("set", e.target.value)}
+            onKeyPress={handleKeyPress}
+          />
+        </label>
+        <label>
+          Series
+          <input
+            type="text"
+            placeholder="e.g. Scarlet & Violet"
+            value={filters.series || ""}
+            onChange={(e) => update("series", e.target.value)}
+            onKeyPress={handleKeyPress}
+          />
+        </label>
+        <label>
+          Rarity
+          <select
+            value={filters.rarity || ""}
+            onChange={(e) => update("rarity", e.target.value)}
+          >
+            <option value="">Any</option>
+            {RARITIES.map((rarity) => (
+              <option key={rarity} value={rarity}>
+                {rarity}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Supertype
+          <select
+            value={filters.supertype || ""}
+            onChange={(e) => update("supertype", e.target.value)}
+          >
+            <option value="">Any</option>
+            {SUPERTYPES.map((supertype) => (
+              <option key={supertype} value={supertype}>
+                {supertype}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Type
+          <select
+            value={filters.type || ""}
+            onChange={(e) => update("type", e.target.value)}
+          >
+            <option value="">Any</option>
+            {TYPES.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Regulation
+          <select
+            value={filters.regulationMark || ""}
+            onChange={(e) => update("regulationMark", e.target.value)}
+          >
+            <option value="">Any</option>
+            {REGULATION_MARKS.map((mark) => (
+              <option key={mark} value={mark}>
+                {mark}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Released after
+          <input
+            type="date"
+            value={filters.releasedAfter || ""}
+            onChange={(e) => update("releasedAfter", e.target.value)}
+          />
+        </label>
+        <label>
+          Released before
+          <input
+            type="date"
+            value={filters.releasedBefore || ""}
+            onChange={(e) => update("releasedBefore", e.target.value)}
+          />
+        </label>
+      </div>
+      <div className="filter-actions">
+        <button onClick={onReset} className="try-different-search">
+          Reset
+        </button>
+        <button onClick={onApply} className="try-different-search">
+          Apply Filters
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CardFilterPanel;
@@ -0,0 +1,50 @@
+import React, { useState, useEffect } from "react";
+import { CardCatalogService } from "../services/CardCatalogService";
+
+interface CardImageProps {
+  src: string;
+  alt: string;
+  className?: string;
+  loading?: "lazy" | "eager";
+  style?: React.CSSProperties;
+}
+
+// <img> that swaps to the offline catalog's copy when the remote image fails
+const CardImage: React.FC<CardImageProps> = ({
+  src,
+  alt,
+  className,
+  loading,
+  style,
+}) => {
+  const [offlineSrc, setOfflineSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    setOfflineSrc(null);
+  }, [src]);
+
+  useEffect(() => {
+    return () => {
+      if (offlineSrc) URL.revokeObjectURL(offlineSrc);
+    };
+  }, [offlineSrc]);
+
+  const handleError = async () => {
+    if (offlineSrc) return;
+    const stored = await CardCatalogService.getImageUrl(src);
+    if (stored) setOfflineSrc(stored);
+  };
+
+  return (
+    <img
+      src={offlineSrc || src}
+      alt={alt}
+      className={className}
+      loading={loading}
+      style={style}
+      onError={handleError}
+    />
+  );
+};
+
+export default CardImage;
@@ -1,16 +1,102 @@
 import React, { useState, useCallback, useMemo } from "react";
-import { Search, Loader2, Filter, Star, Clock } from "lucide-react";
-import type { PokemonCard } from "../types/Card";
+import {
+  Search,
+  Loader2,
+  Filter,
+  Star,
+  Clock,
+  SlidersHorizontal,
+  PackagePlus,
+  Info,
+} from "lucide-react";
+import type { CardFilters, PokemonCard } from "../types/Card";
 import { PokemonTCGService } from "../services/PokemonTCGService";
+import { CardProviderRegistry } from "../services/CardProviderRegistry";
+import type {
+  CardRequestError,
+  CardRequestResult,
+  CardSearchResult,
+} from "../services/CardProvider";
+import CardFilterPanel from "./CardFilterPanel";
+import CardImage from "./CardImage";
+import CardDetailModal from "./CardDetailModal";
 import "../styles/CardSearch.css";
 
 interface CardSearchProps {
   onCardSelect: (card: PokemonCard) => void;
+  onAddToCollection?: (card: PokemonCard) => void;
 }
 
 type SearchMode = "newest" | "popular" | "rare" | "exact";
 
-const CardSearch: React.FC<CardSearchProps> = ({ onCardSelect }) => {
+// User-facing explanation for each way a search can fail
+const describeSearchError = (error: CardRequestError): string => {
+  switch (error.status) {
+    case "rate-limited":
+      return `The card API is rate limiting us. Try again in ${error.retryAfter}s.`;
+    case "timeout":
+      return "The card API took too long to respond.";
+    case "auth":
+      return "The card API rejected our API key. Check VITE_POKEMON_TCG_API_KEY.";
+    case "bad-request":
+      return `The card API couldn't process this search (HTTP ${error.code}). Try simplifying the filters.`;
+    case "server":
+      return `The card API is having problems (HTTP ${error.code}).`;
+    case "network":
+      return "Couldn't reach the card API. Check your connection.";
+  }
+};
+
+// Run a pokemontcg.io search using the strategy behind each mode button
+const searchByMode = async (
+  mode: SearchMode,
+  query: string,
+  filters: CardFilters,
+  page: number,
+  size: number
+): Promise<CardRequestResult<CardSearchResult>> => {
+  switch (mode) {
+    case "popular":
+      return PokemonTCGService.searchCardsByPopularity(
+        query,
+        page,
+        size,
+        filters
+      );
+    case "rare":
+      return PokemonTCGService.searchCardsByRarity(query, page, size, filters);
+    case "exact": {
+      // Exact match needs a name - run the filters on their own
+      if (!query.trim()) {
+        return PokemonTCGService.searchCards(query, page, size, filters);
+      }
+      const exactResults = await PokemonTCGService.quickSearch(
+        query,
+        undefined,
+        filters
+      );
+      if (exactResults.status !== "ok") return exactResults;
+
+      // For exact search, take only the requested page
+      const startIndex = (page - 1) * size;
+      return {
+        ...exactResults,
+        value: {
+          data: exactResults.value.slice(startIndex, startIndex + size),
+          totalCount: exactResults.value.length,
+        },
+      };
+    }
+    case "newest":
+    default:
+      return PokemonTCGService.searchCards(query, page, size, filters);
+  }
+};
+
+const CardSearch: React.FC<CardSearchProps> = ({
+  onCardSelect,
+  onAddToCollection,
+}) => {
   const [searchTerm, setSearchTerm] = useState("");
   const [searchResults, setSearchResults] = useState<PokemonCard[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -19,6 +105,14 @@ const CardSearch: React.FC<CardSearchProps> = ({ onCardSelect }) => {
   const [totalCount, setTotalCount] = useState(0);
   const [currentPage, setCurrentPage] = useState(1); // Always start from 1
   const [pageSize, setPageSize] = useState(12);
+  const [detailCard, setDetailCard] = useState<PokemonCard | null>(null);
+  const [filters, setFilters] = useState<CardFilters>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const [searchError, setSearchError] = useState<CardRequestError | null>(
+    null
+  );
+  const [isOffline, setIsOffline] = useState(false);
+  const hasFilters = PokemonTCGService.hasFilters(filters);
 
   const searchSuggestions = useMemo(
     () => [
@@ -40,9 +134,12 @@ const CardSearch: React.FC<CardSearchProps> = ({ onCardSelect }) => {
     async (
       query: string = searchTerm,
       page: number = 1,
-      size: number = pageSize
+      size: number = pageSize,
+      activeFilters: CardFilters = filters
     ) => {
-      if (!query.trim()) return;
+      if (!query.trim() && !PokemonTCGService.hasFilters(activeFilters)) {
+        return;
+      }
 
       console.log(
         `🔍 Searching: "${query}" | Page: ${page} | Size: ${size} | Mode: ${searchMode}`
@@ -51,59 +148,52 @@ const CardSearch: React.FC<CardSearchProps> = ({ onCardSelect }) => {
       setIsLoading(true);
       setHasSearched(true);
 
-      let result;
-
       // Always ensure page is at least 1
       const safePage = Math.max(page, 1);
 
       try {
-        // Use different search methods based on mode
-        switch (searchMode) {
-          case "newest":
-            result = await PokemonTCGService.searchCards(query, safePage, size);
-            break;
-          case "popular":
-            result = await PokemonTCGService.searchCardsByPopularity(
+        // Search modes are pokemontcg.io specific - other providers get a
+        // plain filtered search
+        const result = CardProviderRegistry.isRemoteApi()
+          ? await searchByMode(searchMode, query, activeFilters, safePage, size)
+          : await CardProviderRegistry.getProvider().search(
               query,
+              activeFilters,
               safePage,
               size
             );
-            break;
-          case "rare":
-            result = await PokemonTCGService.searchCardsByRarity(
-              query,
-              safePage,
-              size
-            );
-            break;
-          case "exact":
-            const exactResults = await PokemonTCGService.quickSearch(query);
-            // For exact search, take only the requested page
-            const startIndex = (safePage - 1) * size;
-            const endIndex = startIndex + size;
-            const pagedResults = exactResults.slice(startIndex, endIndex);
-            result = { data: pagedResults, totalCount: exactResults.length };
-            break;
-          default:
-            result = await PokemonTCGService.searchCards(query, safePage, size);
+
+        if (result.status !== "ok") {
+          console.log(`❌ Search failed: ${result.status}`);
+          setSearchError(result);
+          setSearchResults([]);
+          setTotalCount(0);
+          setCurrentPage(page);
+          return;
         }
 
         console.log(
-          `✅ Search complete: ${result.data.length} cards found (${result.totalCount} total)`
+          `✅ Search complete: ${result.value.data.length} cards found (${result.value.totalCount} total)`
         );
 
-        setSearchResults(result.data);
-        setTotalCount(result.totalCount);
+        setSearchError(null);
+        setIsOffline(Boolean(result.offline));
+        setSearchResults(result.value.data);
+        setTotalCount(result.value.totalCount);
         setCurrentPage(page);
       } catch (error) {
         console.error("❌ Search failed:", error);
+        setSearchError({
+          status: "network",
+          message: error instanceof Error ? error.message : String(error),
+        });
         setSearchResults([]);
         setTotalCount(0);
       } finally {
         setIsLoading(false);
       }
     },
-    [searchTerm, searchMode, pageSize]
+    [searchTerm, searchMode, pageSize, filters]
   );
 
   const handleKeyPress = useCallback(
@@ -117,6 +207,7 @@ const CardSearch: React.FC<CardSearchProps> = ({ onCardSelect }) => {
   );
 
   const clearSearch = useCallback(() => {
+    setSearchError(null);
     setSearchTerm("");
     setSearchResults([]);
     setHasSearched(false);
@@ -140,11 +231,11 @@ const CardSearch: React.FC<CardSearchProps> = ({ onCardSelect }) => {
       setCurrentPage(1); // Reset to first page
 
       // Re-search with new page size if we have a search term
-      if (searchTerm.trim()) {
+      if (searchTerm.trim() || hasFilters) {
         handleSearch(searchTerm, 1, newPageSize);
       }
     },
-    [searchTerm, handleSearch]
+    [searchTerm, hasFilters, handleSearch]
   );
 
   const handleModeChange = useCallback(
@@ -154,16 +245,30 @@ const CardSearch: React.FC<CardSearchProps> = ({ onCardSelect }) => {
       setCurrentPage(1); // Reset to first page
 
       // Re-search with new mode if we have a search term
-      if (searchTerm.trim()) {
+      if (searchTerm.trim() || hasFilters) {
         // Update the searchMode state first, then search
         setTimeout(() => {
           handleSearch(searchTerm, 1, pageSize);
         }, 0);
       }
     },
-    [searchTerm, pageSize, handleSearch]
+    [searchTerm, hasFilters, pageSize, handleSearch]
   );
 
+  // Results of the filtered query would no longer match the visible filters
+  const handleResetFilters = useCallback(() => {
+    setFilters({});
+    setCurrentPage(1);
+    if (searchTerm.trim()) {
+      handleSearch(searchTerm, 1, pageSize, {});
+    } else {
+      setSearchError(null);
+      setSearchResults([]);
+      setHasSearched(false);
+      setTotalCount(0);
+    }
+  }, [searchTerm, pageSize, handleSearch]);
+
   // Calculate pagination info
   const totalPages = Math.ceil(totalCount / pageSize);
   const canGoPrev = currentPage > 1;
@@ -215,7 +320,7 @@ const CardSearch: React.FC<CardSearchProps> = ({ onCardSelect }) => {
               setCurrentPage(1);
               handleSearch(searchTerm, 1, pageSize);
             }}
-            disabled={isLoading || !searchTerm.trim()}
+            disabled={isLoading || (!searchTerm.trim() && !hasFilters)}
             className="search-button"
           >
             {isLoading ? (
@@ -262,6 +367,15 @@ const CardSearch: React.FC<CardSearchProps> = ({ onCardSelect }) => {
           </span>
         </div>
         <div className="search-modes-select">
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`search-mode-btn ${
+              showFilters || hasFilters ? "active" : ""
+            }`}
+            title="Filters"
+          >
+            <SlidersHorizontal size={14} />
+          </button>
           <select
             value={pageSize}
             onChange={(e) => handlePageSizeChange(Number(e.target.value))}
@@ -276,6 +390,18 @@ const CardSearch: React.FC<CardSearchProps> = ({ onCardSelect }) => {
         </div>
       </div>
 
+      {showFilters && (
+        <CardFilterPanel
+          filters={filters}
+          onChange={setFilters}
+          onApply={() => {
+            setCurrentPage(1);
+            handleSearch(searchTerm, 1, pageSize);
+          }}
+          onReset={handleResetFilters}
+        />
+      )}
+
       {!hasSearched && (
         <div className="search-suggestions">
           <h4>Popular searches:</h4>
@@ -300,8 +426,36 @@ const CardSearch: React.FC<CardSearchProps> = ({ onCardSelect }) => {
               <Loader2 className="spinner" size={24} />
               <p>Searching {searchMode} cards...</p>
             </div>
+          ) : searchError ? (
+            <div className="search-error">
+              <p>{describeSearchError(searchError)}</p>
+              <div className="no-results-suggestions">
+                {searchError.status === "bad-request" ? (
+                  <button
+                    onClick={() => setShowFilters(true)}
+                    className="try-exact-search"
+                  >
+                    ✏️ Edit Filters
+                  </button>
+                ) : (
+                  <button
+                    onClick={() =>
+                      handleSearch(searchTerm, currentPage, pageSize)
+                    }
+                    className="try-exact-search"
+                  >
+                    🔄 Retry
+                  </button>
+                )}
+              </div>
+            </div>
           ) : searchResults.length > 0 ? (
             <>
+              {isOffline && (
+                <div className="offline-notice">
+                  📴 Offline - showing cards from your local catalog
+                </div>
+              )}
               <div className="results-header">
                 <span>
                   Showing {(currentPage - 1) * pageSize + 1}-
@@ -322,7 +476,7 @@ const CardSearch: React.FC<CardSearchProps> = ({ onCardSelect }) => {
                     className="card-result"
                     onClick={() => onCardSelect(card)}
                   >
-                    <img
+                    <CardImage
                       src={card.images.small}
                       alt={card.name}
                       className="card-image"
@@ -335,6 +489,30 @@ const CardSearch: React.FC<CardSearchProps> = ({ onCardSelect }) => {
                       </p>
                       <span className="rarity">{card.rarity}</span>
                     </div>
+                    <div className="card-result-actions">
+                      <button
+                        className="card-result-action"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setDetailCard(card);
+                        }}
+                        title="Card details"
+                      >
+                        <Info size={16} />
+                      </button>
+                      {onAddToCollection && (
+                        <button
+                          className="card-result-action"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onAddToCollection(card);
+                          }}
+                          title="Add a copy to your collection"
+                        >
+                          <PackagePlus size={16} />
+                        </button>
+                      )}
+                    </div>
                   </div>
                 ))}
               </div>
@@ -404,7 +582,11 @@ const CardSearch: React.FC<CardSearchProps> = ({ onCardSelect }) => {
             </>
           ) : (
             <div className="no-results">
-              <p>No cards found for "{searchTerm}"</p>
+              <p>
+                No cards found
+                {searchTerm ? ` for "${searchTerm}"` : ""}
+                {hasFilters ? " with the current filters" : ""}
+              </p>
               <div className="no-results-suggestions">
                 <button
                   onClick={() => handleModeChange("exact")}
@@ -427,6 +609,13 @@ const CardSearch: React.FC<CardSearchProps> = ({ onCardSelect }) => {
           )}
         </div>
       )}
+
+      {detailCard && (
+        <CardDetailModal
+          card={detailCard}
+          onClose={() => setDetailCard(null)}
+        />
+      )}
     </div>
   );
 };
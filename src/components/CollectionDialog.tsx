@@ -0,0 +1,366 @@
+import React, { useState, useEffect, useMemo } from "react";
+import { Loader2, Trash2 } from "lucide-react";
+import type { BinderLayout, CardPosition } from "../types/Binder";
+import type { PokemonCard } from "../types/Card";
+import type {
+  CardCondition,
+  CardGrading,
+  CardVariant,
+  OwnedCopy,
+  UnplacedCopy,
+} from "../types/Collection";
+import { CollectionService } from "../services/CollectionService";
+import { CardCatalogService } from "../services/CardCatalogService";
+import { DataService } from "../services/DataService";
+import CardImage from "./CardImage";
+import Modal from "./Modal";
+import "../styles/CollectionDialog.css";
+
+interface CollectionDialogProps {
+  binder: BinderLayout | null;
+  cards: Map<string, PokemonCard>;
+  onLinkBinder: (cardPositions: CardPosition[], label: string) => void;
+  onClose: () => void;
+}
+
+type CollectionView = "all" | "unplaced";
+
+const CollectionDialog: React.FC<CollectionDialogProps> = ({
+  binder,
+  cards,
+  onLinkBinder,
+  onClose,
+}) => {
+  const [copies, setCopies] = useState<OwnedCopy[]>(() =>
+    CollectionService.getCopies()
+  );
+  const [view, setView] = useState<CollectionView>("all");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [catalogCards, setCatalogCards] = useState<Map<string, PokemonCard>>(
+    new Map()
+  );
+  const [unplaced, setUnplaced] = useState<UnplacedCopy[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const refresh = () => setCopies(CollectionService.getCopies());
+
+  // Details for copies whose card isn't in the open binder
+  useEffect(() => {
+    const missing = [...new Set(copies.map((copy) => copy.cardId))].filter(
+      (cardId) => !cards.has(cardId) && !catalogCards.has(cardId)
+    );
+    if (missing.length === 0) return;
+
+    CardCatalogService.getCards(missing).then((found) => {
+      if (found.length === 0) return;
+      setCatalogCards((prev) => {
+        const next = new Map(prev);
+        for (const card of found) next.set(card.id, card);
+        return next;
+      });
+    });
+  }, [copies, cards, catalogCards]);
+
+  // Every binder is needed to tell what isn't in one
+  useEffect(() => {
+    if (view !== "unplaced") return;
+    let cancelled = false;
+    setUnplaced(null);
+    setLoadError(null);
+
+    DataService.loadAllBinders()
+      .then((binders) => {
+        if (cancelled) return;
+        setUnplaced(
+          CollectionService.getUnplacedCopies(
+            DataService.withOpenBinder(binders, binder)
+          )
+        );
+      })
+      .catch((error) => {
+        console.error("Failed to load binders:", error);
+        if (!cancelled) setLoadError("Could not load your binders.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [view, binder, copies]);
+
+  const getCard = (cardId: string) =>
+    cards.get(cardId) || catalogCards.get(cardId);
+
+  const rows = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    const source: UnplacedCopy[] =
+      view === "unplaced"
+        ? unplaced || []
+        : copies.map((copy) => ({ copy, unplaced: 0 }));
+
+    return source.filter(({ copy }) => {
+      if (!term) return true;
+      const card = cards.get(copy.cardId) || catalogCards.get(copy.cardId);
+      return (
+        copy.cardId.toLowerCase().includes(term) ||
+        !!card?.name.toLowerCase().includes(term)
+      );
+    });
+  }, [view, unplaced, copies, searchTerm, cards, catalogCards]);
+
+  const update = (
+    copyId: string,
+    changes: Partial<Omit<OwnedCopy, "id" | "cardId">>
+  ) => {
+    CollectionService.updateCopy(copyId, changes);
+    refresh();
+  };
+
+  // Ungraded once every grading field is cleared
+  const updateGrading = (copy: OwnedCopy, changes: Partial<CardGrading>) => {
+    const grading = { company: "", grade: "", ...copy.grading, ...changes };
+    update(copy.id, {
+      grading:
+        grading.company || grading.grade || grading.certNumber
+          ? grading
+          : undefined,
+    });
+  };
+
+  const handleRemove = (copy: OwnedCopy) => {
+    const name = getCard(copy.cardId)?.name || copy.cardId;
+    if (!window.confirm(`Remove ${name} from your collection?`)) return;
+    CollectionService.removeCopy(copy.id);
+    refresh();
+
+    if (binder?.cardPositions.some((pos) => pos.copyId === copy.id)) {
+      onLinkBinder(
+        CollectionService.unlinkRemovedCopies(binder).cardPositions,
+        `Unlink removed ${name}`
+      );
+    }
+  };
+
+  // Create a copy for every card in the open binder that has none yet and
+  // link its slots to it. Cards that already have copies are left for the
+  // user to link by hand, since we can't tell which copy a slot holds.
+  const handleAddBinderCards = () => {
+    if (!binder) return;
+    const counts = new Map<string, number>();
+    for (const pos of binder.cardPositions) {
+      if (pos.cardId && !pos.copyId && pos.status !== "planned") {
+        counts.set(pos.cardId, (counts.get(pos.cardId) || 0) + 1);
+      }
+    }
+
+    const created = new Map<string, OwnedCopy>();
+    for (const [cardId, quantity] of counts) {
+      if (CollectionService.getCopiesOfCard(cardId).length > 0) continue;
+      created.set(cardId, CollectionService.addCopy(cardId, { quantity }));
+    }
+    refresh();
+
+    if (created.size === 0) {
+      setMessage(`Every card in ${binder.name} is already in the collection.`);
+      return;
+    }
+    onLinkBinder(
+      binder.cardPositions.map((pos) => {
+        const copy =
+          pos.cardId && pos.status !== "planned" && !pos.copyId
+            ? created.get(pos.cardId)
+            : undefined;
+        return copy ? { ...pos, copyId: copy.id } : pos;
+      }),
+      `Link ${created.size} cards to the collection`
+    );
+    setMessage(`Added ${created.size} cards from ${binder.name}.`);
+  };
+
+  const totalCards = copies.reduce((sum, copy) => sum + copy.quantity, 0);
+
+  return (
+    <Modal title="Collection" onClose={onClose} wide>
+      <div className="collection-toolbar">
+        <input
+          type="text"
+          className="modal-input"
+          placeholder="Search by name or card id..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+        />
+        <select
+          className="modal-select"
+          value={view}
+          onChange={(e) => setView(e.target.value as CollectionView)}
+        >
+          <option value="all">All owned cards ({totalCards})</option>
+          <option value="unplaced">Not in any binder</option>
+        </select>
+        <button
+          className="modal-btn"
+          onClick={handleAddBinderCards}
+          disabled={!binder}
+          title="Add the open binder's cards and link their slots"
+        >
+          Add from binder
+        </button>
+      </div>
+
+      {message && (
+        <div className="modal-report">
+          <p className="success">{message}</p>
+        </div>
+      )}
+
+      {view === "unplaced" && loadError ? (
+        <div className="modal-report">
+          <p className="error">{loadError}</p>
+        </div>
+      ) : view === "unplaced" && unplaced === null ? (
+        <div className="collection-empty">
+          <Loader2 className="spinner" size={24} />
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="collection-empty">
+          {copies.length === 0
+            ? "Your collection is empty. Add cards from search results or from a binder."
+            : view === "unplaced" && !searchTerm
+            ? "Every owned card is in a binder."
+            : `No cards match "${searchTerm}".`}
+        </div>
+      ) : (
+        <ul className="collection-list">
+          {rows.map(({ copy, unplaced: missing }) => {
+            const card = getCard(copy.cardId);
+            return (
+              <li key={copy.id} className="collection-item">
+                <div className="collection-thumb">
+                  {card?.images.small ? (
+                    <CardImage src={card.images.small} alt="" loading="lazy" />
+                  ) : (
+                    <span>🎴</span>
+                  )}
+                </div>
+
+                <div className="collection-details">
+                  <h4>{card?.name || copy.cardId}</h4>
+                  <p>
+                    {card ? `${card.set.name} • ${card.number}` : copy.cardId}
+                    {missing > 0 && (
+                      <span className="collection-tag">
+                        {missing} not in a binder
+                      </span>
+                    )}
+                  </p>
+                </div>
+
+                <div className="collection-fields">
+                  <input
+                    type="number"
+                    className="modal-input quantity"
+                    min={1}
+                    value={copy.quantity}
+                    onChange={(e) =>
+                      update(copy.id, {
+                        quantity: Math.max(
+                          parseInt(e.target.value, 10) || 1,
+                          1
+                        ),
+                      })
+                    }
+                    title="Quantity"
+                  />
+                  <select
+                    className="modal-select"
+                    value={copy.condition}
+                    onChange={(e) =>
+                      update(copy.id, {
+                        condition: e.target.value as CardCondition,
+                      })
+                    }
+                    title="Condition"
+                  >
+                    {Object.entries(CollectionService.CONDITIONS).map(
+                      ([value, label]) => (
+                        <option key={value} value={value} title={label}>
+                          {value}
+                        </option>
+                      )
+                    )}
+                  </select>
+                  <select
+                    className="modal-select"
+                    value={copy.variant}
+                    onChange={(e) =>
+                      update(copy.id, {
+                        variant: e.target.value as CardVariant,
+                      })
+                    }
+                    title="Variant"
+                  >
+                    {Object.entries(CollectionService.VARIANTS).map(
+                      ([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      )
+                    )}
+                  </select>
+                  <input
+                    className="modal-input language"
+                    value={copy.language}
+                    maxLength={5}
+                    onChange={(e) =>
+                      update(copy.id, {
+                        language: e.target.value.trim().toLowerCase(),
+                      })
+                    }
+                    title="Language"
+                  />
+                  <input
+                    className="modal-input grading-company"
+                    value={copy.grading?.company || ""}
+                    placeholder="Grader"
+                    onChange={(e) =>
+                      updateGrading(copy, { company: e.target.value })
+                    }
+                    title="Grading company, e.g. PSA"
+                  />
+                  <input
+                    className="modal-input grading-grade"
+                    value={copy.grading?.grade || ""}
+                    placeholder="Grade"
+                    onChange={(e) =>
+                      updateGrading(copy, { grade: e.target.value })
+                    }
+                    title="Grade, e.g. 10 or Authentic"
+                  />
+                  <input
+                    className="modal-input grading-cert"
+                    value={copy.grading?.certNumber || ""}
+                    placeholder="Cert #"
+                    onChange={(e) =>
+                      updateGrading(copy, {
+                        certNumber: e.target.value || undefined,
+                      })
+                    }
+                    title="Certification number"
+                  />
+                  <button
+                    className="modal-btn danger"
+                    onClick={() => handleRemove(copy)}
+                    title="Remove from collection"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </Modal>
+  );
+};
+
+export default CollectionDialog;
@@ -0,0 +1,180 @@
+import React, { useState } from "react";
+import { Download, Loader2, Upload } from "lucide-react";
+import type {
+  BinderLayout,
+  BinderTemplate,
+  CardImportResult,
+  ResolvedImportEntry,
+  UnresolvedImportEntry,
+} from "../types/Binder";
+import { DataService } from "../services/DataService";
+import { CardProviderRegistry } from "../services/CardProviderRegistry";
+import Modal from "./Modal";
+import ImportProblems from "./ImportProblems";
+import "../styles/ImportDialog.css";
+
+interface CsvDialogProps {
+  binder: BinderLayout | null;
+  templates: BinderTemplate[];
+  onExport: () => void;
+  // templateId null means the open binder; returns cards that didn't fit
+  onImport: (
+    entries: ResolvedImportEntry[],
+    templateId: string | null,
+    name: string
+  ) => UnresolvedImportEntry[];
+  onClose: () => void;
+}
+
+const CURRENT_BINDER = "";
+
+const CsvDialog: React.FC<CsvDialogProps> = ({
+  binder,
+  templates,
+  onExport,
+  onImport,
+  onClose,
+}) => {
+  const [target, setTarget] = useState(
+    binder ? CURRENT_BINDER : templates[0]?.id || CURRENT_BINDER
+  );
+  const [fileName, setFileName] = useState("");
+  const [result, setResult] = useState<CardImportResult | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+  const [report, setReport] = useState<{
+    placed: number;
+    problems: UnresolvedImportEntry[];
+  } | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setFileName(file.name);
+    setResult(null);
+    setReport(null);
+    setIsResolving(true);
+    try {
+      setResult(
+        await DataService.readBinderCsv(
+          file,
+          CardProviderRegistry.getProvider()
+        )
+      );
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const handleImport = () => {
+    if (!result) return;
+
+    const name = fileName.replace(/\.csv$/i, "") || "Imported binder";
+    const unplaced = onImport(
+      result.resolved,
+      target === CURRENT_BINDER ? null : target,
+      name
+    );
+    setReport({
+      placed: result.resolved.length - unplaced.length,
+      problems: [...result.unresolved, ...unplaced].sort(
+        (a, b) => a.line - b.line
+      ),
+    });
+    setResult(null);
+  };
+
+  const canImport =
+    result !== null &&
+    result.resolved.length > 0 &&
+    (target !== CURRENT_BINDER || binder !== null);
+
+  return (
+    <Modal
+      title="Spreadsheet (CSV)"
+      onClose={onClose}
+      footer={
+        <>
+          <button className="modal-btn" onClick={onClose}>
+            {report ? "Done" : "Cancel"}
+          </button>
+          <button
+            className="modal-btn primary"
+            onClick={handleImport}
+            disabled={!canImport}
+          >
+            Import {result ? result.resolved.length : ""} cards
+          </button>
+        </>
+      }
+    >
+      <div className="import-section">
+        <h4>Export</h4>
+        <p>
+          One row per card with page, row, col, card id, name, set, number,
+          rarity and market price.
+        </p>
+        <button className="modal-btn" onClick={onExport} disabled={!binder}>
+          <Download size={14} /> Download CSV
+        </button>
+      </div>
+
+      <div className="import-section">
+        <h4>Import</h4>
+        <p>
+          Rows need a <code>card_id</code> column or <code>set_id</code> and{" "}
+          <code>number</code> columns. Optional <code>page</code>,{" "}
+          <code>row</code> and <code>col</code> columns pick the slot.
+        </p>
+        <select
+          className="modal-select"
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+        >
+          {binder && <option value={CURRENT_BINDER}>Into {binder.name}</option>}
+          {templates.map((template) => (
+            <option key={template.id} value={template.id}>
+              New binder: {template.name}
+            </option>
+          ))}
+        </select>
+        <label className="import-dropzone">
+          {isResolving ? (
+            <Loader2 className="spinner" size={20} />
+          ) : (
+            <Upload size={20} />
+          )}
+          <span>{fileName || "Choose a CSV file"}</span>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+
+      {result && (
+        <div className="modal-report">
+          <p className="success">
+            ✓ Matched {result.resolved.length} card
+            {result.resolved.length === 1 ? "" : "s"}
+          </p>
+          <ImportProblems entries={result.unresolved} unit="Row" />
+        </div>
+      )}
+
+      {report && (
+        <div className="modal-report">
+          <p className="success">
+            Imported {report.placed} card{report.placed === 1 ? "" : "s"}
+          </p>
+          <ImportProblems entries={report.problems} unit="Row" />
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default CsvDialog;
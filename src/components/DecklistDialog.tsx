@@ -0,0 +1,144 @@
+import React, { useState } from "react";
+import { Loader2 } from "lucide-react";
+import type {
+  BinderLayout,
+  BinderTemplate,
+  ResolvedImportEntry,
+  UnresolvedImportEntry,
+} from "../types/Binder";
+import { DataService } from "../services/DataService";
+import { CardProviderRegistry } from "../services/CardProviderRegistry";
+import Modal from "./Modal";
+import ImportProblems from "./ImportProblems";
+import "../styles/ImportDialog.css";
+
+interface DecklistDialogProps {
+  binder: BinderLayout | null;
+  templates: BinderTemplate[];
+  // templateId null means the open binder; returns cards that didn't fit
+  onImport: (
+    entries: ResolvedImportEntry[],
+    templateId: string | null,
+    name: string
+  ) => UnresolvedImportEntry[];
+  onClose: () => void;
+}
+
+const CURRENT_BINDER = "";
+
+const DecklistDialog: React.FC<DecklistDialogProps> = ({
+  binder,
+  templates,
+  onImport,
+  onClose,
+}) => {
+  const [text, setText] = useState("");
+  const [target, setTarget] = useState(
+    binder ? CURRENT_BINDER : templates[0]?.id || CURRENT_BINDER
+  );
+  const [deckName, setDeckName] = useState("");
+  const [isResolving, setIsResolving] = useState(false);
+  const [report, setReport] = useState<{
+    placed: number;
+    problems: UnresolvedImportEntry[];
+  } | null>(null);
+
+  const handleImport = async () => {
+    setIsResolving(true);
+    setReport(null);
+    try {
+      const result = await DataService.readDecklist(
+        text,
+        CardProviderRegistry.getProvider()
+      );
+      const unplaced =
+        result.resolved.length > 0
+          ? onImport(
+              result.resolved,
+              target === CURRENT_BINDER ? null : target,
+              deckName.trim() || "New deck"
+            )
+          : [];
+      setReport({
+        placed: result.resolved.length - unplaced.length,
+        problems: [...result.unresolved, ...unplaced].sort(
+          (a, b) => a.line - b.line
+        ),
+      });
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const canImport =
+    text.trim() !== "" &&
+    !isResolving &&
+    (target !== CURRENT_BINDER || binder !== null);
+
+  return (
+    <Modal
+      title="Import Decklist"
+      onClose={onClose}
+      footer={
+        <>
+          <button className="modal-btn" onClick={onClose}>
+            {report ? "Done" : "Cancel"}
+          </button>
+          <button
+            className="modal-btn primary"
+            onClick={handleImport}
+            disabled={!canImport}
+          >
+            {isResolving && <Loader2 className="spinner" size={14} />}
+            Add cards
+          </button>
+        </>
+      }
+    >
+      <div className="import-section">
+        <p>
+          Paste a PTCG Live or PTCGO export. Each line needs a count, name, set
+          code and number, e.g. <code>4 Charizard ex OBF 125</code>.
+        </p>
+        <textarea
+          className="modal-textarea"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={"Pokémon: 12\n4 Charizard ex OBF 125\n..."}
+          spellCheck={false}
+        />
+        <select
+          className="modal-select"
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+        >
+          {binder && <option value={CURRENT_BINDER}>Into {binder.name}</option>}
+          {templates.map((template) => (
+            <option key={template.id} value={template.id}>
+              New binder: {template.name}
+            </option>
+          ))}
+        </select>
+        {target !== CURRENT_BINDER && (
+          <input
+            className="modal-input"
+            value={deckName}
+            onChange={(e) => setDeckName(e.target.value)}
+            placeholder="Deck name"
+          />
+        )}
+      </div>
+
+      {report && (
+        <div className="modal-report">
+          <p className="success">
+            Added {report.placed} card{report.placed === 1 ? "" : "s"}
+          </p>
+          <ImportProblems entries={report.problems} unit="Line" />
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default DecklistDialog;
@@ -0,0 +1,147 @@
+import React, { useState, useEffect, useMemo } from "react";
+import { Loader2, MapPin } from "lucide-react";
+import type { BinderLayout } from "../types/Binder";
+import type { PokemonCard } from "../types/Card";
+import { DataService } from "../services/DataService";
+import {
+  buildCardIndex,
+  findDuplicateCards,
+  searchCardIndex,
+} from "../utils/binderIndex";
+import type { CardIndexEntry, CardLocation } from "../utils/binderIndex";
+import CardImage from "./CardImage";
+import Modal from "./Modal";
+import "../styles/FindCardDialog.css";
+
+interface FindCardDialogProps {
+  binder: BinderLayout | null;
+  cards: Map<string, PokemonCard>;
+  onJump: (location: CardLocation) => void;
+  onClose: () => void;
+}
+
+type FindView = "search" | "duplicates";
+
+const MAX_RESULTS = 50;
+
+const FindCardDialog: React.FC<FindCardDialogProps> = ({
+  binder,
+  cards,
+  onJump,
+  onClose,
+}) => {
+  const [binders, setBinders] = useState<BinderLayout[] | null>(null);
+  const [view, setView] = useState<FindView>("search");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    DataService.loadAllBinders()
+      .then(setBinders)
+      .catch((error) => {
+        console.error("Failed to load binders:", error);
+        setLoadError("Could not load your binders.");
+      });
+  }, []);
+
+  const index = useMemo(() => {
+    if (!binders) return new Map<string, CardIndexEntry>();
+    return buildCardIndex(DataService.withOpenBinder(binders, binder), cards);
+  }, [binders, binder, cards]);
+
+  const duplicates = useMemo(() => findDuplicateCards(index), [index]);
+  const entries =
+    view === "duplicates" ? duplicates : searchCardIndex(index, searchTerm);
+
+  return (
+    <Modal title="Find Card" onClose={onClose} wide>
+      <div className="find-toolbar">
+        <input
+          type="text"
+          className="modal-input"
+          placeholder="Card name or id, e.g. Umbreon VMAX"
+          value={searchTerm}
+          onChange={(e) => {
+            setSearchTerm(e.target.value);
+            setView("search");
+          }}
+          autoFocus
+        />
+        <select
+          className="modal-select"
+          value={view}
+          onChange={(e) => setView(e.target.value as FindView)}
+        >
+          <option value="search">Search all binders</option>
+          <option value="duplicates">
+            In more than one slot ({duplicates.length})
+          </option>
+        </select>
+      </div>
+
+      {loadError ? (
+        <div className="modal-report">
+          <p className="error">{loadError}</p>
+        </div>
+      ) : binders === null ? (
+        <div className="find-empty">
+          <Loader2 className="spinner" size={24} />
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="find-empty">
+          {view === "duplicates"
+            ? "No card is in more than one slot."
+            : searchTerm.trim()
+            ? `No binder holds "${searchTerm}".`
+            : `Search ${binders.length} binders by card name or id.`}
+        </div>
+      ) : (
+        <ul className="find-list">
+          {entries.slice(0, MAX_RESULTS).map((entry) => (
+            <li key={entry.cardId} className="find-item">
+              <div className="find-thumb">
+                {entry.image ? (
+                  <CardImage src={entry.image} alt="" loading="lazy" />
+                ) : (
+                  <span>🎴</span>
+                )}
+              </div>
+              <div className="find-details">
+                <h4>{entry.name}</h4>
+                <p>
+                  {entry.setName
+                    ? `${entry.setName} • ${entry.number}`
+                    : entry.cardId}
+                </p>
+                <ul className="find-locations">
+                  {entry.locations.map((location) => (
+                    <li key={`${location.binderId}-${location.slotIndex}`}>
+                      <button
+                        className="modal-btn"
+                        onClick={() => onJump(location)}
+                        title="Open this slot"
+                      >
+                        <MapPin size={12} />
+                        {location.binderName} • page {location.page}, slot{" "}
+                        {location.slot}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {entries.length > MAX_RESULTS && (
+        <p className="find-more">
+          Showing {MAX_RESULTS} of {entries.length} cards. Refine the search to
+          see the rest.
+        </p>
+      )}
+    </Modal>
+  );
+};
+
+export default FindCardDialog;
@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from "react";
+import { Upload } from "lucide-react";
+import type { BinderLayout } from "../types/Binder";
+import type { BinderValidationResult } from "../services/BinderSchema";
+import { DataService } from "../services/DataService";
+import Modal from "./Modal";
+import "../styles/ImportDialog.css";
+
+interface ImportDialogProps {
+  existingIds: string[];
+  onImported: (binders: BinderLayout[]) => void;
+  onOpen: (binderId: string) => void;
+  onClose: () => void;
+}
+
+interface ImportEntry {
+  fileName: string;
+  result: BinderValidationResult;
+  onCollision: "rename" | "overwrite";
+}
+
+const ImportDialog: React.FC<ImportDialogProps> = ({
+  existingIds,
+  onImported,
+  onOpen,
+  onClose,
+}) => {
+  const [entries, setEntries] = useState<ImportEntry[]>([]);
+  const [imported, setImported] = useState<BinderLayout[]>([]);
+  const [githubIds, setGithubIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    DataService.loadGitHubBinderIds().then(setGithubIds);
+  }, []);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files) return;
+
+    const parsed = await Promise.all(
+      Array.from(files).map(async (file) => ({
+        fileName: file.name,
+        result: await DataService.readBinderFile(file),
+        onCollision: "rename" as const,
+      }))
+    );
+    setEntries(parsed);
+    setImported([]);
+  };
+
+  const setCollision = (index: number, onCollision: "rename" | "overwrite") => {
+    setEntries((prev) =>
+      prev.map((entry, i) => (i === index ? { ...entry, onCollision } : entry))
+    );
+  };
+
+  const handleImport = () => {
+    const saved: BinderLayout[] = [];
+    const knownIds = [...existingIds];
+
+    for (const entry of entries) {
+      if (!entry.result.valid) continue;
+      const binder = DataService.importBinder(
+        entry.result.binder,
+        knownIds,
+        entry.onCollision,
+        githubIds
+      );
+      knownIds.push(binder.id);
+      saved.push(binder);
+    }
+
+    setImported(saved);
+    setEntries([]);
+    onImported(saved);
+  };
+
+  // GitHub binders are read-only, so imports clashing with one become copies
+  const canOverwrite = (binderId: string) =>
+    existingIds.includes(binderId) && !githubIds.includes(binderId);
+
+  const validCount = entries.filter((entry) => entry.result.valid).length;
+
+  return (
+    <Modal
+      title="Import Binders"
+      onClose={onClose}
+      footer={
+        <>
+          <button className="modal-btn" onClick={onClose}>
+            {imported.length > 0 ? "Done" : "Cancel"}
+          </button>
+          {imported.length > 0 ? (
+            <button
+              className="modal-btn primary"
+              onClick={() => onOpen(imported[0].id)}
+            >
+              Open {imported[0].name}
+            </button>
+          ) : (
+            <button
+              className="modal-btn primary"
+              onClick={handleImport}
+              disabled={validCount === 0}
+            >
+              Import {validCount > 0 ? validCount : ""}
+            </button>
+          )}
+        </>
+      }
+    >
+      <label className="import-dropzone">
+        <Upload size={20} />
+        <span>Choose exported binder JSON files</span>
+        <input
+          type="file"
+          accept=".json,application/json"
+          multiple
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+      </label>
+
+      {entries.map((entry, index) => (
+        <div key={`${entry.fileName}-${index}`} className="modal-report">
+          <strong>{entry.fileName}</strong>
+          {entry.result.valid ? (
+            <>
+              <p className="success">
+                ✓ {entry.result.binder.name} (
+                {entry.result.binder.cardPositions.length} slots)
+              </p>
+              {githubIds.includes(entry.result.binder.id) && (
+                <p>
+                  GitHub binder {entry.result.binder.id} is read-only, so this
+                  will be imported as a copy.
+                </p>
+              )}
+              {canOverwrite(entry.result.binder.id) && (
+                <div className="import-collision">
+                  <span>A binder with id {entry.result.binder.id} exists:</span>
+                  <select
+                    className="modal-select"
+                    value={entry.onCollision}
+                    onChange={(e) =>
+                      setCollision(
+                        index,
+                        e.target.value as ImportEntry["onCollision"]
+                      )
+                    }
+                  >
+                    <option value="rename">Import as a copy</option>
+                    <option value="overwrite">Overwrite existing</option>
+                  </select>
+                </div>
+              )}
+            </>
+          ) : (
+            <ul className="error">
+              {entry.result.errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+
+      {imported.length > 0 && (
+        <div className="modal-report">
+          <p className="success">
+            Imported {imported.length} binder
+            {imported.length === 1 ? "" : "s"}:{" "}
+            {imported.map((binder) => binder.name).join(", ")}
+          </p>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default ImportDialog;
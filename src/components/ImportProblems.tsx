@@ -0,0 +1,32 @@
+import React from "react";
+import type { UnresolvedImportEntry } from "../types/Binder";
+import "../styles/ImportDialog.css";
+
+interface ImportProblemsProps {
+  entries: UnresolvedImportEntry[];
+  unit: string; // "Row" for spreadsheets, "Line" for pasted text
+}
+
+// Entries from an import that didn't end up in the binder, with the reason
+const ImportProblems: React.FC<ImportProblemsProps> = ({ entries, unit }) => {
+  if (entries.length === 0) return null;
+
+  return (
+    <>
+      <p className="error">
+        {entries.length} {unit.toLowerCase()}
+        {entries.length === 1 ? "" : "s"} not imported:
+      </p>
+      <ul className="error">
+        {entries.map((entry, index) => (
+          <li key={`${entry.line}-${index}`}>
+            {unit} {entry.line}: {entry.reason}
+            {entry.text && <code className="import-source">{entry.text}</code>}
+          </li>
+        ))}
+      </ul>
+    </>
+  );
+};
+
+export default ImportProblems;
@@ -0,0 +1,158 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Printer, X } from "lucide-react";
+import type { BinderLayout } from "../types/Binder";
+import type { PokemonCard } from "../types/Card";
+import CardImage from "./CardImage";
+import "../styles/Modal.css";
+import "../styles/PrintLayout.css";
+
+interface PrintLayoutProps {
+  binder: BinderLayout;
+  cards: Map<string, PokemonCard>;
+  onClose: () => void;
+}
+
+type PrintScale = "actual" | "fit";
+
+// Standard trading card size and the gap between pockets, in millimetres
+const CARD_WIDTH_MM = 63;
+const CARD_HEIGHT_MM = 88;
+const POCKET_GAP_MM = 2;
+
+// Grid area that fits both A4 and US Letter with 10mm margins and a header
+const PRINTABLE_WIDTH_MM = 190;
+const PRINTABLE_HEIGHT_MM = 240;
+
+// Print preview of every binder page at real card size. The rest of the app
+// is hidden by the print stylesheet while this is open.
+const PrintLayout: React.FC<PrintLayoutProps> = ({
+  binder,
+  cards,
+  onClose,
+}) => {
+  const [scaleMode, setScaleMode] = useState<PrintScale>("actual");
+  const [skipEmptyPages, setSkipEmptyPages] = useState(false);
+
+  const { rows, cols } = binder.dimensions;
+  const pageSize = rows * cols;
+  const gridWidth = cols * CARD_WIDTH_MM + (cols - 1) * POCKET_GAP_MM;
+  const gridHeight = rows * CARD_HEIGHT_MM + (rows - 1) * POCKET_GAP_MM;
+  const fitsPaper =
+    gridWidth <= PRINTABLE_WIDTH_MM && gridHeight <= PRINTABLE_HEIGHT_MM;
+  const scale =
+    scaleMode === "fit" && !fitsPaper
+      ? Math.min(
+          PRINTABLE_WIDTH_MM / gridWidth,
+          PRINTABLE_HEIGHT_MM / gridHeight
+        )
+      : 1;
+
+  const pages = useMemo(() => {
+    const result = [];
+    for (
+      let start = 0;
+      start < binder.cardPositions.length;
+      start += pageSize
+    ) {
+      result.push({
+        number: start / pageSize + 1,
+        slots: binder.cardPositions.slice(start, start + pageSize),
+      });
+    }
+    return skipEmptyPages
+      ? result.filter((page) => page.slots.some((pos) => pos.cardId))
+      : result;
+  }, [binder.cardPositions, pageSize, skipEmptyPages]);
+  const totalPages = Math.ceil(binder.cardPositions.length / pageSize);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const mm = (value: number) => `${(value * scale).toFixed(2)}mm`;
+  const gridStyle: React.CSSProperties = {
+    gridTemplateColumns: `repeat(${cols}, ${mm(CARD_WIDTH_MM)})`,
+    gridAutoRows: mm(CARD_HEIGHT_MM),
+    gap: mm(POCKET_GAP_MM),
+  };
+
+  return (
+    <div className="print-preview">
+      <div className="print-toolbar">
+        <strong>Print preview</strong>
+        <select
+          className="modal-select"
+          value={scaleMode}
+          onChange={(e) => setScaleMode(e.target.value as PrintScale)}
+        >
+          <option value="actual">Actual size (63 × 88 mm cards)</option>
+          <option value="fit">Fit to A4 / Letter</option>
+        </select>
+        <label>
+          <input
+            type="checkbox"
+            checked={skipEmptyPages}
+            onChange={(e) => setSkipEmptyPages(e.target.checked)}
+          />
+          Skip empty pages
+        </label>
+        <span className="print-note">
+          {scale < 1
+            ? `Scaled to ${Math.round(scale * 100)}%`
+            : fitsPaper
+            ? "Set your printer to 100% / actual size"
+            : `Pages are ${gridWidth} × ${gridHeight} mm - use A3 paper or fit to page`}
+        </span>
+        <button className="modal-btn primary" onClick={() => window.print()}>
+          <Printer size={16} />
+          Print
+        </button>
+        <button className="modal-btn" onClick={onClose} title="Close preview">
+          <X size={16} />
+        </button>
+      </div>
+
+      {pages.map((page) => (
+        <section key={page.number} className="print-page">
+          <header className="print-page-header">
+            <span>{binder.name}</span>
+            <span>
+              Page {page.number} of {totalPages}
+            </span>
+          </header>
+          <div className="print-grid" style={gridStyle}>
+            {page.slots.map((pos, index) => {
+              const card = pos.cardId ? cards.get(pos.cardId) : undefined;
+              return (
+                <div
+                  key={index}
+                  className={`print-pocket ${pos.cardId ? "filled" : ""} ${
+                    pos.status === "planned" ? "planned" : ""
+                  }`}
+                >
+                  {card?.images.small ? (
+                    <CardImage
+                      src={card.images.small}
+                      alt={card.name}
+                      loading="eager"
+                    />
+                  ) : pos.cardId ? (
+                    <span className="print-pocket-label">
+                      {card?.name || pos.cardId}
+                    </span>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default PrintLayout;
@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import type { BinderLayout, BinderTemplate } from "../types/Binder";
+import type { CardSet, PokemonCard } from "../types/Card";
+import { DataService } from "../services/DataService";
+import { CardProviderRegistry } from "../services/CardProviderRegistry";
+import Modal from "./Modal";
+import "../styles/ImportDialog.css";
+
+interface SetBinderDialogProps {
+  templates: BinderTemplate[];
+  onCreate: (binder: BinderLayout, cards: PokemonCard[]) => void;
+  onClose: () => void;
+}
+
+const SetBinderDialog: React.FC<SetBinderDialogProps> = ({
+  templates,
+  onCreate,
+  onClose,
+}) => {
+  const [sets, setSets] = useState<CardSet[]>([]);
+  const [setId, setSetId] = useState("");
+  const [templateId, setTemplateId] = useState(templates[0]?.id || "");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<{
+    name: string;
+    planned: number;
+    unplaced: PokemonCard[];
+  } | null>(null);
+
+  useEffect(() => {
+    CardProviderRegistry.getProvider()
+      .listSets()
+      .then((loaded) => {
+        setSets(loaded);
+        setSetId((prev) => prev || loaded[0]?.id || "");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const set = sets.find((s) => s.id === setId);
+  const template = templates.find((t) => t.id === templateId);
+  const capacity = template
+    ? template.dimensions.rows * template.dimensions.cols * template.maxPage
+    : 0;
+
+  const handleCreate = async () => {
+    if (!set || !template) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const { cards, error } = await DataService.loadSetCards(
+        set.id,
+        CardProviderRegistry.getProvider()
+      );
+      if (error || cards.length === 0) {
+        setError(error || `No cards found for ${set.name}`);
+        return;
+      }
+
+      const { binder, unplaced } = DataService.createChecklistBinder(
+        template.id,
+        templates,
+        set,
+        cards
+      );
+      onCreate(binder, cards);
+      setReport({
+        name: binder.name,
+        planned: cards.length - unplaced.length,
+        unplaced,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Modal
+      title="New Binder from Set"
+      onClose={onClose}
+      footer={
+        <>
+          <button className="modal-btn" onClick={onClose}>
+            {report ? "Done" : "Cancel"}
+          </button>
+          {!report && (
+            <button
+              className="modal-btn primary"
+              onClick={handleCreate}
+              disabled={!set || !template || isLoading}
+            >
+              {isLoading && <Loader2 className="spinner" size={14} />}
+              Create
+            </button>
+          )}
+        </>
+      }
+    >
+      <div className="import-section">
+        <p>
+          Reserves a slot for every card in the set, in collector number order.
+          Missing cards show greyed out until you mark them owned or add them.
+        </p>
+        <select
+          className="modal-select"
+          value={setId}
+          onChange={(e) => setSetId(e.target.value)}
+          disabled={sets.length === 0}
+        >
+          {sets.length === 0 && (
+            <option value="">
+              {isLoading ? "Loading sets..." : "No sets"}
+            </option>
+          )}
+          {sets.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.name} ({s.series})
+            </option>
+          ))}
+        </select>
+        <select
+          className="modal-select"
+          value={templateId}
+          onChange={(e) => setTemplateId(e.target.value)}
+        >
+          {templates.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+        {!!set?.total && template && (
+          <p>
+            {set.total} cards • {template.name} holds up to {capacity}
+          </p>
+        )}
+      </div>
+
+      {!!set?.total && template && set.total > capacity && !report && (
+        <div className="modal-report">
+          <p className="error">
+            Only the first {capacity} cards will fit in this binder.
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <div className="modal-report">
+          <p className="error">{error}</p>
+        </div>
+      )}
+
+      {report && (
+        <div className="modal-report">
+          <p className="success">
+            Created {report.name} with {report.planned} planned slots
+          </p>
+          {report.unplaced.length > 0 && (
+            <p className="error">
+              {report.unplaced.length} cards didn't fit, from #
+              {report.unplaced[0].number}
+            </p>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default SetBinderDialog;
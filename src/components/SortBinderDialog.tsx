@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from "react";
+import type { BinderLayout, CardPosition } from "../types/Binder";
+import type { PokemonCard } from "../types/Card";
+import { GROUP_LABELS, SORT_KEY_LABELS, sortBinder } from "../utils/binderSort";
+import type { BinderSortKey, BinderSortLayout } from "../utils/binderSort";
+import Modal from "./Modal";
+import "../styles/ImportDialog.css";
+
+interface SortBinderDialogProps {
+  binder: BinderLayout;
+  cards: Map<string, PokemonCard>;
+  onSort: (cardPositions: CardPosition[], label: string) => void;
+  onClose: () => void;
+}
+
+const SortBinderDialog: React.FC<SortBinderDialogProps> = ({
+  binder,
+  cards,
+  onSort,
+  onClose,
+}) => {
+  const [sortKey, setSortKey] = useState<BinderSortKey>("set");
+  const [layout, setLayout] = useState<BinderSortLayout>("compact");
+
+  const result = useMemo(
+    () => sortBinder(binder, cards, sortKey, layout),
+    [binder, cards, sortKey, layout]
+  );
+  const pageSize = binder.dimensions.rows * binder.dimensions.cols;
+
+  const layoutOptions: { value: BinderSortLayout; label: string }[] = [
+    { value: "keep-gaps", label: "Keep existing gaps where they are" },
+    { value: "compact", label: "Compact - remove gaps between cards" },
+    {
+      value: "page-per-group",
+      label: `Start each ${GROUP_LABELS[sortKey]} on a new page`,
+    },
+  ];
+
+  return (
+    <Modal
+      title="Sort Binder"
+      onClose={onClose}
+      footer={
+        <>
+          <button className="modal-btn" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            className="modal-btn primary"
+            disabled={!result.ok}
+            onClick={() =>
+              result.ok &&
+              onSort(
+                result.cardPositions,
+                `Sort by ${SORT_KEY_LABELS[sortKey].toLowerCase()}`
+              )
+            }
+          >
+            Sort
+          </button>
+        </>
+      }
+    >
+      <div className="import-section">
+        <h4>Order by</h4>
+        <select
+          className="modal-select"
+          value={sortKey}
+          onChange={(e) => setSortKey(e.target.value as BinderSortKey)}
+        >
+          {(Object.keys(SORT_KEY_LABELS) as BinderSortKey[]).map((key) => (
+            <option key={key} value={key}>
+              {SORT_KEY_LABELS[key]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="import-section">
+        <h4>Layout</h4>
+        {layoutOptions.map((option) => (
+          <label key={option.value}>
+            <input
+              type="radio"
+              name="sort-layout"
+              checked={layout === option.value}
+              onChange={() => setLayout(option.value)}
+            />{" "}
+            {option.label}
+          </label>
+        ))}
+      </div>
+
+      <div className="modal-report">
+        {result.ok ? (
+          <>
+            <p className="success">
+              ✓ Uses {Math.ceil(result.cardPositions.length / pageSize)} of{" "}
+              {binder.maxPage || 1} pages
+            </p>
+            {result.unknownCards > 0 && (
+              <p className="error">
+                {result.unknownCards} card
+                {result.unknownCards === 1 ? " hasn't" : "s haven't"} loaded yet
+                and will be placed last.
+              </p>
+            )}
+          </>
+        ) : (
+          <p className="error">{result.error}</p>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default SortBinderDialog;
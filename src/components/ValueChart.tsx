@@ -0,0 +1,70 @@
+import React from "react";
+import { formatPrice } from "../utils/pricing";
+
+interface ValueChartProps {
+  points: { takenAt: string; total: number }[]; // oldest first
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const PADDING = 8;
+
+// Binder value over time as a line, scaled to the lowest and highest value
+const ValueChart: React.FC<ValueChartProps> = ({ points }) => {
+  if (points.length < 2) {
+    return (
+      <p className="value-empty">
+        The chart appears once there are two snapshots.
+      </p>
+    );
+  }
+
+  const times = points.map((point) => Date.parse(point.takenAt));
+  const totals = points.map((point) => point.total);
+  const start = Math.min(...times);
+  const span = Math.max(...times) - start || 1;
+  const low = Math.min(...totals);
+  const high = Math.max(...totals);
+  const range = high - low || 1;
+
+  const coordinates = points.map((point, index) => {
+    const x = PADDING + ((times[index] - start) / span) * (WIDTH - 2 * PADDING);
+    const y =
+      HEIGHT - PADDING - ((point.total - low) / range) * (HEIGHT - 2 * PADDING);
+    return { x, y, point };
+  });
+
+  return (
+    <div className="value-chart">
+      <div className="value-chart-axis">
+        <span>{formatPrice(high)}</span>
+        <span>{formatPrice(low)}</span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`}>
+        <polyline
+          points={coordinates.map(({ x, y }) => `${x},${y}`).join(" ")}
+          fill="none"
+          stroke="var(--accent-pink)"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+        {coordinates.map(({ x, y, point }) => (
+          <circle key={point.takenAt} cx={x} cy={y} r={3} fill="#fff">
+            <title>
+              {new Date(point.takenAt).toLocaleString()}:{" "}
+              {formatPrice(point.total)}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <div className="value-chart-dates">
+        <span>{new Date(points[0].takenAt).toLocaleDateString()}</span>
+        <span>
+          {new Date(points[points.length - 1].takenAt).toLocaleDateString()}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default ValueChart;
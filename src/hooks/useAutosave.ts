@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import type { BinderLayout } from "../types/Binder";
+import type { PokemonCard } from "../types/Card";
+import { DataService } from "../services/DataService";
+
+const AUTOSAVE_DELAY = 1500;
+
+// Debounced localStorage autosave. The binder is dirty whenever it isn't the
+// exact object that was last saved (or opened), so undoing back to the saved
+// state counts as clean again.
+export const useAutosave = (
+  binder: BinderLayout | null,
+  cards: Map<string, PokemonCard>,
+  onSaved?: (binder: BinderLayout) => void
+) => {
+  const [savedBinder, setSavedBinder] = useState<BinderLayout | null>(null);
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const onSavedRef = useRef(onSaved);
+  onSavedRef.current = onSaved;
+
+  const isDirty = binder !== null && binder !== savedBinder;
+
+  const saveNow = useCallback(() => {
+    if (!binder) return;
+
+    try {
+      DataService.saveBinder(binder, cards);
+      setSavedBinder(binder);
+      setLastSavedAt(new Date());
+      setSaveError(null);
+      onSavedRef.current?.(binder);
+    } catch (error) {
+      console.error("Autosave failed:", error);
+      setSaveError(error instanceof Error ? error.message : String(error));
+    }
+  }, [binder, cards]);
+
+  // Treat a freshly opened or created binder as already saved
+  const markSaved = useCallback((opened: BinderLayout | null) => {
+    setSavedBinder(opened);
+    setSaveError(null);
+  }, []);
+
+  useEffect(() => {
+    if (!isDirty) return;
+    const timeoutId = setTimeout(saveNow, AUTOSAVE_DELAY);
+    return () => clearTimeout(timeoutId);
+  }, [isDirty, saveNow]);
+
+  // Closing the tab with a pending save asks the browser to confirm
+  useEffect(() => {
+    if (!isDirty) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = "";
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [isDirty]);
+
+  return { isDirty, lastSavedAt, saveError, saveNow, markSaved };
+};
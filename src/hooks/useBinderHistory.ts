@@ -0,0 +1,82 @@
+import { useState, useCallback } from "react";
+import type { BinderLayout } from "../types/Binder";
+
+interface HistoryEntry {
+  binder: BinderLayout;
+  label: string;
+}
+
+interface BinderHistoryState {
+  past: HistoryEntry[];
+  present: HistoryEntry | null;
+  future: HistoryEntry[];
+}
+
+const HISTORY_LIMIT = 100;
+
+// Current binder plus a bounded undo/redo stack of every mutation.
+// Loading or creating a binder starts a fresh history.
+export const useBinderHistory = () => {
+  const [history, setHistory] = useState<BinderHistoryState>({
+    past: [],
+    present: null,
+    future: [],
+  });
+
+  const updateBinder = useCallback(
+    (binder: BinderLayout, label: string = "Edit binder") => {
+      setHistory((prev) => ({
+        past: prev.present
+          ? [...prev.past, prev.present].slice(-HISTORY_LIMIT)
+          : prev.past,
+        present: { binder, label },
+        future: [],
+      }));
+    },
+    []
+  );
+
+  const resetBinder = useCallback((binder: BinderLayout | null) => {
+    setHistory({
+      past: [],
+      present: binder ? { binder, label: "Open binder" } : null,
+      future: [],
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.past.length === 0 || !prev.present) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.future.length === 0 || !prev.present) return prev;
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+      };
+    });
+  }, []);
+
+  return {
+    binder: history.present?.binder ?? null,
+    updateBinder,
+    resetBinder,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    // Labels describe the change that undo/redo would reverse/reapply
+    undoLabel:
+      history.present && history.past.length > 0 ? history.present.label : null,
+    redoLabel: history.future[0]?.label ?? null,
+  };
+};
@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { BinderMigrations } from "./BinderMigrations";
+import { BinderSchema } from "./BinderSchema";
+import unversioned from "./__fixtures__/binder-unversioned.json";
+import versionOne from "./__fixtures__/binder-v1.json";
+
+const migrateFixture = (fixture: unknown) => {
+  const result = BinderMigrations.migrate(structuredClone(fixture));
+  if (!result.ok) throw new Error(result.error);
+  return result;
+};
+
+describe("BinderMigrations", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("treats a binder without schemaVersion as version 1", () => {
+    expect(BinderMigrations.getVersion(unversioned)).toBe(1);
+    expect(BinderMigrations.needsMigration(unversioned)).toBe(true);
+    expect(BinderMigrations.getVersion(versionOne)).toBe(1);
+  });
+
+  it("upgrades an unversioned binder to the current version", () => {
+    const { binder, migratedFrom } = migrateFixture(unversioned);
+
+    expect(migratedFrom).toBe(1);
+    expect(binder).toEqual({
+      ...unversioned,
+      schemaVersion: BinderMigrations.CURRENT_VERSION,
+      // Eight 2×2 slots fill two pages
+      maxPage: 2,
+      cardPositions: [
+        { cardId: "base1-4", row: 0, col: 0, isEmpty: false },
+        { cardId: null, row: 0, col: 1, isEmpty: true },
+        { cardId: "base1-58", row: 1, col: 0, isEmpty: false, rotation: 90 },
+        { cardId: null, row: 1, col: 1, isEmpty: true },
+        { cardId: "base1-46", row: 0, col: 0, isEmpty: false },
+        { cardId: null, row: 0, col: 1, isEmpty: true },
+        { cardId: null, row: 1, col: 0, isEmpty: true },
+        { cardId: null, row: 1, col: 1, isEmpty: true },
+      ],
+    });
+    expect(BinderSchema.validate(binder)).toEqual({ valid: true, binder });
+  });
+
+  it("upgrades a version 1 binder and keeps its page limit", () => {
+    const { binder, migratedFrom } = migrateFixture(versionOne);
+
+    expect(migratedFrom).toBe(1);
+    expect(binder.schemaVersion).toBe(BinderMigrations.CURRENT_VERSION);
+    expect(binder.maxPage).toBe(5);
+    expect(binder.description).toBe(versionOne.description);
+    expect(binder.cardPositions).toEqual([
+      { cardId: "sv3-125", row: 0, col: 0, isEmpty: false },
+      { cardId: null, row: 0, col: 1, isEmpty: true },
+      { cardId: null, row: 0, col: 2, isEmpty: true },
+      { cardId: null, row: 1, col: 0, isEmpty: true },
+      { cardId: "base1-4", row: 1, col: 1, isEmpty: false },
+      { cardId: null, row: 1, col: 2, isEmpty: true },
+      { cardId: null, row: 2, col: 0, isEmpty: true },
+      { cardId: null, row: 2, col: 1, isEmpty: true },
+      { cardId: "base1-58", row: 2, col: 2, isEmpty: false },
+    ]);
+    expect(BinderSchema.validate(binder)).toEqual({ valid: true, binder });
+  });
+
+  it("leaves a current binder unchanged", () => {
+    const { binder: current } = migrateFixture(versionOne);
+    const result = migrateFixture(current);
+
+    expect(result.migratedFrom).toBe(BinderMigrations.CURRENT_VERSION);
+    expect(result.binder).toEqual(current);
+    expect(console.log).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects binders it cannot migrate", () => {
+    expect(BinderMigrations.migrate([])).toEqual({
+      ok: false,
+      error: "(root): expected a binder object",
+    });
+    expect(
+      BinderMigrations.migrate({ ...versionOne, schemaVersion: 99 })
+    ).toEqual({
+      ok: false,
+      error: `schemaVersion: 99 is newer than this app supports (${BinderMigrations.CURRENT_VERSION})`,
+    });
+  });
+
+  it("fails schema validation for an unmigrated fixture", () => {
+    const result = BinderSchema.validate(unversioned);
+
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.errors).toContain(
+      "schemaVersion: expected 2 (run migrations first)"
+    );
+  });
+});
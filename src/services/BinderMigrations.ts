@@ -0,0 +1,103 @@
+type RawBinder = Record<string, unknown>;
+
+interface Migration {
+  from: number;
+  description: string;
+  migrate: (binder: RawBinder) => RawBinder;
+}
+
+export type MigrationResult =
+  | { ok: true; binder: RawBinder; migratedFrom: number }
+  | { ok: false; error: string };
+
+// Upgrades binder JSON written by older versions of the app. Each step takes
+// a binder at `from` and returns it at `from + 1`; binders saved before
+// versioning existed have no schemaVersion and are treated as version 1.
+export class BinderMigrations {
+  static readonly CURRENT_VERSION = 2;
+
+  private static readonly LEGACY_VERSION = 1;
+
+  private static readonly MIGRATIONS: Migration[] = [
+    {
+      from: 1,
+      description: "Normalize slot flags and coordinates, record maxPage",
+      migrate: (binder) => {
+        const dimensions = binder.dimensions as
+          | { rows: number; cols: number }
+          | undefined;
+        const positions = Array.isArray(binder.cardPositions)
+          ? (binder.cardPositions as RawBinder[])
+          : [];
+        const cols = dimensions?.cols || 1;
+        const pageSize = (dimensions?.rows || 1) * cols;
+
+        const cardPositions = positions.map((pos, index) => {
+          const slot = index % pageSize;
+          const cardId = typeof pos.cardId === "string" ? pos.cardId : null;
+          return {
+            ...pos,
+            cardId,
+            // Early binders derived emptiness from cardId alone
+            isEmpty: !cardId,
+            row: Math.floor(slot / cols),
+            col: slot % cols,
+          };
+        });
+
+        return {
+          ...binder,
+          cardPositions,
+          // Older binders had no page limit - keep every page they already use
+          maxPage:
+            binder.maxPage ??
+            Math.max(Math.ceil(cardPositions.length / pageSize), 1),
+        };
+      },
+    },
+  ];
+
+  static getVersion(binder: RawBinder): number {
+    return typeof binder.schemaVersion === "number"
+      ? binder.schemaVersion
+      : this.LEGACY_VERSION;
+  }
+
+  static needsMigration(binder: RawBinder): boolean {
+    return this.getVersion(binder) < this.CURRENT_VERSION;
+  }
+
+  static migrate(value: unknown): MigrationResult {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return { ok: false, error: "(root): expected a binder object" };
+    }
+
+    let binder = value as RawBinder;
+    const startVersion = this.getVersion(binder);
+
+    if (startVersion > this.CURRENT_VERSION) {
+      return {
+        ok: false,
+        error: `schemaVersion: ${startVersion} is newer than this app supports (${this.CURRENT_VERSION})`,
+      };
+    }
+
+    for (
+      let version = startVersion;
+      version < this.CURRENT_VERSION;
+      version++
+    ) {
+      const step = this.MIGRATIONS.find((m) => m.from === version);
+      if (!step) {
+        return {
+          ok: false,
+          error: `schemaVersion: no migration from version ${version}`,
+        };
+      }
+      console.log(`🔁 Migrating binder v${version}: ${step.description}`);
+      binder = { ...step.migrate(binder), schemaVersion: version + 1 };
+    }
+
+    return { ok: true, binder, migratedFrom: startVersion };
+  }
+}
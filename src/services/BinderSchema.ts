@@ -0,0 +1,231 @@
+import type { BinderLayout } from "../types/Binder";
+import { BinderMigrations } from "./BinderMigrations";
+
+export type BinderValidationResult =
+  | { valid: true; binder: BinderLayout }
+  | { valid: false; errors: string[] };
+
+type Json = Record<string, unknown>;
+
+// Structural validation for binder JSON coming from outside the app.
+// Errors carry the path of the offending field, e.g. "cardPositions[3].row".
+export class BinderSchema {
+  private static readonly MAX_ERRORS = 50;
+
+  static validate(value: unknown): BinderValidationResult {
+    const errors: string[] = [];
+    const fail = (path: string, message: string) => {
+      if (errors.length < this.MAX_ERRORS) {
+        errors.push(`${path}: ${message}`);
+      }
+    };
+
+    if (!this.isObject(value)) {
+      return { valid: false, errors: ["(root): expected a binder object"] };
+    }
+
+    if (value.schemaVersion !== BinderMigrations.CURRENT_VERSION) {
+      fail(
+        "schemaVersion",
+        `expected ${BinderMigrations.CURRENT_VERSION} (run migrations first)`
+      );
+    }
+    this.requireString(value, "id", fail, true);
+    this.requireString(value, "name", fail);
+    this.requireString(value, "template", fail);
+    this.optionalType(value, "description", "string", fail);
+    this.requireDate(value, "createdAt", fail);
+    this.requireDate(value, "updatedAt", fail);
+
+    let rows = 0;
+    let cols = 0;
+    if (!this.isObject(value.dimensions)) {
+      fail("dimensions", "expected an object with rows and cols");
+    } else {
+      rows = this.requirePositiveInt(
+        value.dimensions,
+        "rows",
+        fail,
+        "dimensions."
+      );
+      cols = this.requirePositiveInt(
+        value.dimensions,
+        "cols",
+        fail,
+        "dimensions."
+      );
+    }
+
+    let maxPage: number | null = null;
+    if (value.maxPage !== undefined) {
+      maxPage = this.requirePositiveInt(value, "maxPage", fail);
+    }
+
+    if (!Array.isArray(value.cardPositions)) {
+      fail("cardPositions", "expected an array");
+    } else {
+      value.cardPositions.forEach((pos, index) =>
+        this.validatePosition(pos, `cardPositions[${index}]`, rows, cols, fail)
+      );
+
+      const pageSize = rows * cols;
+      if (pageSize > 0) {
+        const pages = value.cardPositions.length / pageSize;
+        if (!Number.isInteger(pages)) {
+          fail(
+            "cardPositions",
+            `length ${value.cardPositions.length} is not a whole number of ${rows}×${cols} pages`
+          );
+        } else if (maxPage && pages > maxPage) {
+          fail("cardPositions", `has ${pages} pages but maxPage is ${maxPage}`);
+        }
+      }
+    }
+
+    if (value.cardData !== undefined) {
+      this.validateCardData(value.cardData, fail);
+    }
+
+    return errors.length > 0
+      ? { valid: false, errors }
+      : { valid: true, binder: value as unknown as BinderLayout };
+  }
+
+  private static validatePosition(
+    pos: unknown,
+    path: string,
+    rows: number,
+    cols: number,
+    fail: (path: string, message: string) => void
+  ): void {
+    if (!this.isObject(pos)) {
+      fail(path, "expected a slot object");
+      return;
+    }
+
+    if (pos.cardId !== null && typeof pos.cardId !== "string") {
+      fail(`${path}.cardId`, "expected a card id string or null");
+    }
+
+    const row = pos.row;
+    const col = pos.col;
+    if (!Number.isInteger(row) || (row as number) < 0) {
+      fail(`${path}.row`, "expected a non-negative integer");
+    } else if (rows && (row as number) >= rows) {
+      fail(`${path}.row`, `${row} is outside a ${rows}-row page`);
+    }
+    if (!Number.isInteger(col) || (col as number) < 0) {
+      fail(`${path}.col`, "expected a non-negative integer");
+    } else if (cols && (col as number) >= cols) {
+      fail(`${path}.col`, `${col} is outside a ${cols}-column page`);
+    }
+
+    this.optionalType(pos, "rotation", "number", fail, `${path}.`);
+    this.optionalType(pos, "isEmpty", "boolean", fail, `${path}.`);
+    this.optionalType(pos, "copyId", "string", fail, `${path}.`);
+
+    if (pos.isEmpty === true && pos.cardId) {
+      fail(`${path}.isEmpty`, "slot is marked empty but has a cardId");
+    }
+
+    if (
+      pos.status !== undefined &&
+      pos.status !== "planned" &&
+      pos.status !== "owned"
+    ) {
+      fail(`${path}.status`, 'expected "planned" or "owned"');
+    } else if (pos.status === "planned" && !pos.cardId) {
+      fail(`${path}.status`, "a planned slot needs a cardId");
+    }
+  }
+
+  private static validateCardData(
+    cardData: unknown,
+    fail: (path: string, message: string) => void
+  ): void {
+    if (!this.isObject(cardData)) {
+      fail("cardData", "expected an object");
+      return;
+    }
+    if (typeof cardData.version !== "number") {
+      fail("cardData.version", "expected a number");
+    }
+    if (!this.isObject(cardData.cards)) {
+      fail("cardData.cards", "expected an object keyed by card id");
+      return;
+    }
+
+    for (const [cardId, card] of Object.entries(cardData.cards)) {
+      const path = `cardData.cards["${cardId}"]`;
+      if (!this.isObject(card)) {
+        fail(path, "expected a card object");
+        continue;
+      }
+      if (card.id !== cardId) {
+        fail(`${path}.id`, "does not match its key");
+      }
+      if (typeof card.name !== "string") {
+        fail(`${path}.name`, "expected a string");
+      }
+      if (
+        !this.isObject(card.images) ||
+        typeof card.images.small !== "string"
+      ) {
+        fail(`${path}.images.small`, "expected an image URL");
+      }
+    }
+  }
+
+  private static isObject(value: unknown): value is Json {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+
+  private static requireString(
+    obj: Json,
+    key: string,
+    fail: (path: string, message: string) => void,
+    nonEmpty: boolean = false
+  ): void {
+    if (typeof obj[key] !== "string") {
+      fail(key, "expected a string");
+    } else if (nonEmpty && !(obj[key] as string).trim()) {
+      fail(key, "must not be empty");
+    }
+  }
+
+  private static requireDate(
+    obj: Json,
+    key: string,
+    fail: (path: string, message: string) => void
+  ): void {
+    if (typeof obj[key] !== "string" || Number.isNaN(Date.parse(obj[key]))) {
+      fail(key, "expected an ISO date string");
+    }
+  }
+
+  private static requirePositiveInt(
+    obj: Json,
+    key: string,
+    fail: (path: string, message: string) => void,
+    prefix: string = ""
+  ): number {
+    const value = obj[key];
+    if (!Number.isInteger(value) || (value as number) < 1) {
+      fail(`${prefix}${key}`, "expected a positive integer");
+      return 0;
+    }
+    return value as number;
+  }
+
+  private static optionalType(
+    obj: Json,
+    key: string,
+    type: "string" | "number" | "boolean",
+    fail: (path: string, message: string) => void,
+    prefix: string = ""
+  ): void {
+    if (obj[key] !== undefined && typeof obj[key] !== type) {
+      fail(`${prefix}${key}`, `expected a ${type}`);
+    }
+  }
+}
@@ -0,0 +1,238 @@
+import type { CardFilters, PokemonCard } from "../types/Card";
+import {
+  compareByReleaseThenName,
+  matchesCardFilters,
+  matchesCardName,
+} from "../utils/cardFilters";
+
+interface CatalogEntry {
+  id: string;
+  card: PokemonCard;
+  nameLower: string;
+  savedAt: string;
+}
+
+interface ImageEntry {
+  url: string;
+  blob: Blob;
+  savedAt: string;
+}
+
+// Persistent offline catalog of every card the user has seen or placed,
+// including image blobs so binders still render without a connection.
+export class CardCatalogService {
+  private static readonly DB_NAME = "pokemon-card-catalog";
+  private static readonly DB_VERSION = 1;
+  private static readonly CARD_STORE = "cards";
+  private static readonly IMAGE_STORE = "images";
+
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== "undefined";
+  }
+
+  // Store (or refresh) card records
+  static async saveCards(cards: PokemonCard[]): Promise<void> {
+    const valid = cards.filter((card) => card && card.id && card.images?.small);
+    if (valid.length === 0 || !this.isSupported()) return;
+
+    try {
+      const db = await this.openDatabase();
+      const tx = db.transaction(this.CARD_STORE, "readwrite");
+      const store = tx.objectStore(this.CARD_STORE);
+      const savedAt = new Date().toISOString();
+
+      for (const card of valid) {
+        const entry: CatalogEntry = {
+          id: card.id,
+          card,
+          nameLower: card.name.toLowerCase(),
+          savedAt,
+        };
+        store.put(entry);
+      }
+
+      await this.transactionDone(tx);
+    } catch (error) {
+      console.error("💾 Failed to save cards to catalog:", error);
+    }
+  }
+
+  static async getCard(cardId: string): Promise<PokemonCard | null> {
+    const cards = await this.getCards([cardId]);
+    return cards[0] || null;
+  }
+
+  static async getCards(cardIds: string[]): Promise<PokemonCard[]> {
+    if (cardIds.length === 0 || !this.isSupported()) return [];
+
+    try {
+      const db = await this.openDatabase();
+      const store = db
+        .transaction(this.CARD_STORE, "readonly")
+        .objectStore(this.CARD_STORE);
+
+      const entries = await Promise.all(
+        cardIds.map((cardId) =>
+          this.request<CatalogEntry | undefined>(store.get(cardId))
+        )
+      );
+
+      return entries
+        .filter((entry): entry is CatalogEntry => Boolean(entry))
+        .map((entry) => entry.card);
+    } catch (error) {
+      console.error("💾 Catalog lookup failed:", error);
+      return [];
+    }
+  }
+
+  // Local stand-in for the API search, used when the network is unavailable
+  static async search(
+    query: string,
+    filters: CardFilters = {},
+    page: number = 1,
+    pageSize: number = 20,
+    exact: boolean = false
+  ): Promise<{ data: PokemonCard[]; totalCount: number }> {
+    if (!this.isSupported()) return { data: [], totalCount: 0 };
+
+    try {
+      const db = await this.openDatabase();
+      const store = db
+        .transaction(this.CARD_STORE, "readonly")
+        .objectStore(this.CARD_STORE);
+      const entries = await this.request<CatalogEntry[]>(store.getAll());
+
+      const matches = entries
+        .map((entry) => entry.card)
+        .filter(
+          (card) =>
+            matchesCardName(card, query, exact) &&
+            matchesCardFilters(card, filters)
+        )
+        .sort(compareByReleaseThenName);
+
+      console.log(`📴 Offline catalog matched ${matches.length} cards`);
+
+      const start = (Math.max(page, 1) - 1) * pageSize;
+      return {
+        data: matches.slice(start, start + pageSize),
+        totalCount: matches.length,
+      };
+    } catch (error) {
+      console.error("💾 Catalog search failed:", error);
+      return { data: [], totalCount: 0 };
+    }
+  }
+
+  // Download and keep the small image of each card (skips ones already stored)
+  static async cacheImages(cards: PokemonCard[]): Promise<void> {
+    if (!this.isSupported()) return;
+
+    for (const card of cards) {
+      const url = card.images?.small;
+      if (!url) continue;
+
+      try {
+        const db = await this.openDatabase();
+        const existing = await this.request<ImageEntry | undefined>(
+          db
+            .transaction(this.IMAGE_STORE, "readonly")
+            .objectStore(this.IMAGE_STORE)
+            .get(url)
+        );
+        if (existing) continue;
+
+        const response = await fetch(url);
+        if (!response.ok) continue;
+        const blob = await response.blob();
+
+        const tx = db.transaction(this.IMAGE_STORE, "readwrite");
+        const entry: ImageEntry = {
+          url,
+          blob,
+          savedAt: new Date().toISOString(),
+        };
+        tx.objectStore(this.IMAGE_STORE).put(entry);
+        await this.transactionDone(tx);
+      } catch (error) {
+        console.log(`📴 Could not cache image for ${card.id}`);
+      }
+    }
+  }
+
+  // Object URL for a stored image - caller is responsible for revoking it
+  static async getImageUrl(url: string): Promise<string | null> {
+    if (!url || !this.isSupported()) return null;
+
+    try {
+      const db = await this.openDatabase();
+      const entry = await this.request<ImageEntry | undefined>(
+        db
+          .transaction(this.IMAGE_STORE, "readonly")
+          .objectStore(this.IMAGE_STORE)
+          .get(url)
+      );
+      return entry ? URL.createObjectURL(entry.blob) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async getStats(): Promise<{ cards: number; images: number }> {
+    if (!this.isSupported()) return { cards: 0, images: 0 };
+
+    const db = await this.openDatabase();
+    const tx = db.transaction([this.CARD_STORE, this.IMAGE_STORE], "readonly");
+    const [cards, images] = await Promise.all([
+      this.request<number>(tx.objectStore(this.CARD_STORE).count()),
+      this.request<number>(tx.objectStore(this.IMAGE_STORE).count()),
+    ]);
+    return { cards, images };
+  }
+
+  private static openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(this.CARD_STORE)) {
+            const cards = db.createObjectStore(this.CARD_STORE, {
+              keyPath: "id",
+            });
+            cards.createIndex("nameLower", "nameLower");
+          }
+          if (!db.objectStoreNames.contains(this.IMAGE_STORE)) {
+            db.createObjectStore(this.IMAGE_STORE, { keyPath: "url" });
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private static request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private static transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+}
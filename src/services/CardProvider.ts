@@ -0,0 +1,43 @@
+import type { CardFilters, CardSet, PokemonCard } from "../types/Card";
+
+export interface CardSearchResult {
+  data: PokemonCard[];
+  totalCount: number;
+}
+
+export interface CardBatchResult {
+  cards: PokemonCard[];
+  failedIds: string[];
+  // Set when a request failed, so failedIds may exist but weren't fetched
+  error?: CardRequestError;
+}
+
+// Source of card data - the pokemontcg.io API or a self-hosted dump
+export interface CardProvider {
+  readonly id: string;
+  readonly name: string;
+  search(
+    query: string,
+    filters?: CardFilters,
+    page?: number,
+    pageSize?: number
+  ): Promise<CardRequestResult<CardSearchResult>>;
+  getCard(cardId: string): Promise<PokemonCard | null>;
+  getCards(cardIds: string[]): Promise<CardBatchResult>;
+  listSets(): Promise<CardSet[]>;
+}
+
+// Outcome of a card data request - failures are reported, never swallowed
+export type CardRequestResult<T> =
+  | { status: "ok"; value: T; offline?: boolean }
+  | { status: "rate-limited"; retryAfter: number } // seconds
+  | { status: "timeout" }
+  | { status: "auth"; message: string }
+  | { status: "bad-request"; code: number; message: string }
+  | { status: "server"; code: number; message: string }
+  | { status: "network"; message: string };
+
+export type CardRequestError = Exclude<
+  CardRequestResult<unknown>,
+  { status: "ok" }
+>;
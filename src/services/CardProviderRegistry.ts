@@ -0,0 +1,44 @@
+import type { CardProvider } from "./CardProvider";
+import { pokemonTCGProvider } from "./PokemonTCGService";
+import { LocalCardProvider } from "./LocalCardProvider";
+
+// Picks the card data provider once at startup. Precedence:
+// ?provider= URL param, then VITE_CARD_PROVIDER, then the pokemontcg.io API.
+export class CardProviderRegistry {
+  private static readonly DEFAULT_PROVIDER = "pokemontcg";
+  private static active: CardProvider | null = null;
+
+  static initialize(): CardProvider {
+    const params = new URLSearchParams(window.location.search);
+    const requested =
+      params.get("provider") ||
+      import.meta.env.VITE_CARD_PROVIDER ||
+      this.DEFAULT_PROVIDER;
+
+    this.active = this.createProvider(requested);
+    console.log(`🗂️ Using card provider: ${this.active.name}`);
+    return this.active;
+  }
+
+  static getProvider(): CardProvider {
+    return this.active || this.initialize();
+  }
+
+  static isRemoteApi(): boolean {
+    return this.getProvider().id === pokemonTCGProvider.id;
+  }
+
+  private static createProvider(id: string): CardProvider {
+    switch (id) {
+      case "local":
+        return new LocalCardProvider(
+          import.meta.env.VITE_LOCAL_CARD_DATA || undefined
+        );
+      case "pokemontcg":
+        return pokemonTCGProvider;
+      default:
+        console.warn(`Unknown card provider "${id}", using pokemontcg.io`);
+        return pokemonTCGProvider;
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import type { BinderLayout, CardPosition } from "../types/Binder";
+import type {
+  CardCondition,
+  CardVariant,
+  OwnedCopy,
+  UnplacedCopy,
+} from "../types/Collection";
+
+interface StoredCollection {
+  version: number;
+  copies: OwnedCopy[];
+}
+
+// The cards the user owns, independent of any binder. Binder slots can point
+// at a specific copy through CardPosition.copyId.
+export class CollectionService {
+  private static readonly STORAGE_KEY = "card-collection";
+  private static readonly VERSION = 1;
+
+  static readonly CONDITIONS: Record<CardCondition, string> = {
+    NM: "Near Mint",
+    LP: "Lightly Played",
+    MP: "Moderately Played",
+    HP: "Heavily Played",
+    DMG: "Damaged",
+  };
+
+  static readonly VARIANTS: Record<CardVariant, string> = {
+    normal: "Normal",
+    holofoil: "Holo",
+    reverseHolofoil: "Reverse Holo",
+    "1stEditionNormal": "1st Edition",
+    "1stEditionHolofoil": "1st Edition Holo",
+  };
+
+  static getCopies(): OwnedCopy[] {
+    const stored = localStorage.getItem(this.STORAGE_KEY);
+    if (!stored) return [];
+
+    try {
+      const collection: StoredCollection = JSON.parse(stored);
+      return Array.isArray(collection.copies) ? collection.copies : [];
+    } catch (error) {
+      console.error("📦 Failed to read collection:", error);
+      return [];
+    }
+  }
+
+  static getCopyMap(): Map<string, OwnedCopy> {
+    return new Map(this.getCopies().map((copy) => [copy.id, copy]));
+  }
+
+  static getCopiesOfCard(cardId: string): OwnedCopy[] {
+    return this.getCopies().filter((copy) => copy.cardId === cardId);
+  }
+
+  // New copies default to one English near mint card
+  static addCopy(
+    cardId: string,
+    details: Partial<Omit<OwnedCopy, "id" | "cardId">> = {}
+  ): OwnedCopy {
+    const now = new Date().toISOString();
+    const copy: OwnedCopy = {
+      quantity: 1,
+      condition: "NM",
+      variant: "normal",
+      language: "en",
+      addedAt: now,
+      ...details,
+      id: this.generateCopyId(),
+      cardId,
+      updatedAt: now,
+    };
+    this.save([...this.getCopies(), copy]);
+    return copy;
+  }
+
+  static updateCopy(
+    copyId: string,
+    changes: Partial<Omit<OwnedCopy, "id" | "cardId">>
+  ): void {
+    this.save(
+      this.getCopies().map((copy) =>
+        copy.id === copyId
+          ? { ...copy, ...changes, updatedAt: new Date().toISOString() }
+          : copy
+      )
+    );
+  }
+
+  static removeCopy(copyId: string): void {
+    this.save(this.getCopies().filter((copy) => copy.id !== copyId));
+  }
+
+  // Drop slot links to copies that are no longer in the collection. Returns
+  // the binder itself when nothing changed.
+  static unlinkRemovedCopies(binder: BinderLayout): BinderLayout {
+    const copies = this.getCopyMap();
+    if (
+      binder.cardPositions.every((pos) => !pos.copyId || copies.has(pos.copyId))
+    ) {
+      return binder;
+    }
+
+    return {
+      ...binder,
+      cardPositions: binder.cardPositions.map((pos) => {
+        if (!pos.copyId || copies.has(pos.copyId)) return pos;
+        const unlinked: CardPosition = { ...pos };
+        delete unlinked.copyId;
+        return unlinked;
+      }),
+    };
+  }
+
+  // Copies with more cards than binder slots holding them. Slots linked to a
+  // copy count against it; unlinked slots count against any copy of the
+  // same card. Planned (not yet owned) slots don't count.
+  static getUnplacedCopies(binders: BinderLayout[]): UnplacedCopy[] {
+    const linked = new Map<string, number>();
+    const unlinked = new Map<string, number>();
+    for (const binder of binders) {
+      for (const pos of binder.cardPositions) {
+        if (!pos.cardId || pos.status === "planned") continue;
+        if (pos.copyId) {
+          linked.set(pos.copyId, (linked.get(pos.copyId) || 0) + 1);
+        } else {
+          unlinked.set(pos.cardId, (unlinked.get(pos.cardId) || 0) + 1);
+        }
+      }
+    }
+
+    const result: UnplacedCopy[] = [];
+    for (const copy of this.getCopies()) {
+      let remaining = copy.quantity - (linked.get(copy.id) || 0);
+      const pool = unlinked.get(copy.cardId) || 0;
+      const used = Math.min(Math.max(remaining, 0), pool);
+      unlinked.set(copy.cardId, pool - used);
+      remaining -= used;
+      if (remaining > 0) {
+        result.push({ copy, unplaced: remaining });
+      }
+    }
+    return result;
+  }
+
+  private static save(copies: OwnedCopy[]): void {
+    const collection: StoredCollection = { version: this.VERSION, copies };
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(collection));
+  }
+
+  private static generateCopyId(): string {
+    return `copy-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+}
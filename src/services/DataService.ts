@@ -1,25 +1,128 @@
-import type { BinderLayout, BinderTemplate } from "../types/Binder";
+import type {
+  BinderLayout,
+  BinderSummary,
+  BinderTemplate,
+  CardImportResult,
+  ResolvedImportEntry,
+  UnresolvedImportEntry,
+} from "../types/Binder";
+import type { CardSet, PokemonCard } from "../types/Card";
+import { BinderSchema } from "./BinderSchema";
+import { BinderMigrations } from "./BinderMigrations";
+import type { BinderValidationResult } from "./BinderSchema";
+import type { CardProvider } from "./CardProvider";
+import { ValueSnapshotService } from "./ValueSnapshotService";
+import { CollectionService } from "./CollectionService";
+import { parseCsv, toCsv } from "../utils/csv";
+import { getMarketPrice } from "../utils/pricing";
+import { parseDecklist } from "../utils/decklist";
+import { addCardsToBinder } from "../utils/binderPlacement";
+import { compareCollectorNumbers } from "../utils/binderSort";
+
+// Spreadsheet columns, in export order. Coordinates are 1-based.
+const CSV_COLUMNS = [
+  "page",
+  "row",
+  "col",
+  "card_id",
+  "name",
+  "set_id",
+  "number",
+  "rarity",
+  "market_price",
+];
+
+// Header spellings accepted on import
+const CSV_HEADER_ALIASES: Record<string, string> = {
+  cardid: "card_id",
+  id: "card_id",
+  setid: "set_id",
+  set: "set_id",
+  number: "number",
+  no: "number",
+  cardnumber: "number",
+  collectornumber: "number",
+  page: "page",
+  row: "row",
+  col: "col",
+  column: "col",
+};
 
 export class DataService {
   private static baseUrl = import.meta.env.DEV
     ? "/public/data"
     : "/pokemon-card-binder/data";
 
+  static readonly CARD_DATA_VERSION = 1;
+
+  // URL of a file under public/data
+  static getDataUrl(path: string): string {
+    return `${this.baseUrl}/${path}`;
+  }
+
   // Load all available binders from localStorage and GitHub
   static async loadAvailableBinders(): Promise<string[]> {
     const localBinders = this.getLocalBinderIds();
+    const githubBinders = await this.loadGitHubBinderIds();
 
-    try {
-      const response = await fetch(`${this.baseUrl}/index.json`);
-      const data = await response.json();
-      const githubBinders = data.binders || [];
+    // Combine and deduplicate
+    return [...new Set([...localBinders, ...githubBinders])];
+  }
 
-      // Combine and deduplicate
-      return [...new Set([...localBinders, ...githubBinders])];
-    } catch (error) {
-      console.log("No GitHub binder index found, using local only");
-      return localBinders;
-    }
+  // Load every binder, skipping any that fail to load
+  static async loadAllBinders(): Promise<BinderLayout[]> {
+    const binderIds = await this.loadAvailableBinders();
+    const binders = await Promise.all(
+      binderIds.map((binderId) => this.loadBinder(binderId))
+    );
+    return binders.filter((binder): binder is BinderLayout => binder !== null);
+  }
+
+  // The open binder may have unsaved changes, so it replaces its stored copy
+  static withOpenBinder(
+    binders: BinderLayout[],
+    openBinder: BinderLayout | null
+  ): BinderLayout[] {
+    const others = binders.filter((binder) => binder.id !== openBinder?.id);
+    return openBinder ? [...others, openBinder] : others;
+  }
+
+  // Load every binder and reduce it to what the library view needs
+  static async loadBinderSummaries(): Promise<BinderSummary[]> {
+    const [binders, githubBinders] = await Promise.all([
+      this.loadAllBinders(),
+      this.loadGitHubBinderIds(),
+    ]);
+
+    return binders.map((binder) =>
+      this.summarizeBinder(
+        binder,
+        githubBinders.includes(binder.id) ? "github" : "local"
+      )
+    );
+  }
+
+  static summarizeBinder(
+    binder: BinderLayout,
+    source: BinderSummary["source"] = "local"
+  ): BinderSummary {
+    const filled = binder.cardPositions.filter((pos) => pos.cardId);
+    const storedCards = this.getStoredCards(binder);
+    const cover = filled
+      .map((pos) => storedCards.get(pos.cardId!))
+      .find((card) => card?.images.small);
+
+    return {
+      id: binder.id,
+      name: binder.name,
+      template: binder.template,
+      filledSlots: filled.length,
+      totalSlots: binder.cardPositions.length,
+      coverImage: cover ? cover.images.small : null,
+      createdAt: binder.createdAt,
+      updatedAt: binder.updatedAt,
+      source,
+    };
   }
 
   // Load specific binder (try GitHub first, then localStorage)
@@ -28,7 +131,7 @@ export class DataService {
     try {
       const response = await fetch(`${this.baseUrl}/binders/${binderId}.json`);
       if (response.ok) {
-        return await response.json();
+        return this.upgradeBinder(await response.json(), binderId);
       }
     } catch (error) {
       console.log(
@@ -38,47 +141,482 @@ export class DataService {
 
     // Fallback to localStorage
     const cached = localStorage.getItem(`binder-${binderId}`);
-    return cached ? JSON.parse(cached) : null;
+    if (!cached) return null;
+
+    let raw: Record<string, unknown>;
+    try {
+      raw = JSON.parse(cached);
+    } catch (error) {
+      // One corrupt entry shouldn't take the rest of the library down with it
+      console.error(`Cannot load ${binderId}: stored data is not JSON`, error);
+      return null;
+    }
+    const binder = this.upgradeBinder(raw, binderId);
+    if (binder && BinderMigrations.needsMigration(raw)) {
+      // Persist the upgrade so it only runs once
+      localStorage.setItem(`binder-${binderId}`, JSON.stringify(binder));
+    }
+    return binder;
   }
 
   // Save binder to localStorage
-  static saveBinder(binder: BinderLayout): void {
+  static saveBinder(
+    binder: BinderLayout,
+    cards?: Map<string, PokemonCard>
+  ): void {
     const updated = {
-      ...binder,
+      ...this.withCardData(binder, cards),
       updatedAt: new Date().toISOString(),
     };
     localStorage.setItem(`binder-${binder.id}`, JSON.stringify(updated));
     this.updateLocalIndex(binder.id);
   }
 
+  // Remove a binder from localStorage and the local index
+  static deleteBinder(binderId: string): void {
+    localStorage.removeItem(`binder-${binderId}`);
+    ValueSnapshotService.deleteSnapshots(binderId);
+    const remaining = this.getLocalBinderIds().filter((id) => id !== binderId);
+    localStorage.setItem("binder-index", JSON.stringify(remaining));
+  }
+
+  // Save a copy of a binder under a new id
+  static duplicateBinder(binder: BinderLayout): BinderLayout {
+    const now = new Date().toISOString();
+    const copy: BinderLayout = {
+      ...binder,
+      id: this.generateBinderId(),
+      name: `${binder.name} (Copy)`,
+      cardPositions: binder.cardPositions.map((pos) => ({ ...pos })),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.saveBinder(copy);
+    return copy;
+  }
+
+  static async renameBinder(
+    binderId: string,
+    name: string
+  ): Promise<BinderLayout | null> {
+    const binder = await this.loadBinder(binderId);
+    if (!binder) return null;
+
+    const renamed = { ...binder, name };
+    this.saveBinder(renamed);
+    return renamed;
+  }
+
+  // Parse and validate an exported binder file
+  static async readBinderFile(file: File): Promise<BinderValidationResult> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { valid: false, errors: [`(file): not valid JSON - ${message}`] };
+    }
+
+    const migrated = BinderMigrations.migrate(parsed);
+    if (!migrated.ok) {
+      return { valid: false, errors: [migrated.error] };
+    }
+    return BinderSchema.validate(migrated.binder);
+  }
+
+  // Save an imported binder. When its id is already taken, either overwrite
+  // that binder or store the import under a fresh id. GitHub binders can't be
+  // overwritten - loadBinder prefers them over localStorage - so imports
+  // colliding with one are always renamed.
+  static importBinder(
+    binder: BinderLayout,
+    existingIds: string[],
+    onCollision: "rename" | "overwrite",
+    githubIds: string[] = []
+  ): BinderLayout {
+    const rename =
+      githubIds.includes(binder.id) ||
+      (existingIds.includes(binder.id) && onCollision === "rename");
+    const imported = rename
+      ? {
+          ...binder,
+          id: this.generateBinderId(),
+          name: `${binder.name} (Imported)`,
+        }
+      : binder;
+
+    this.saveBinder(imported);
+    return imported;
+  }
+
   // Export binder as JSON file for manual GitHub upload
-  static exportBinderForGitHub(binder: BinderLayout): void {
-    const exportData = JSON.stringify(binder, null, 2);
-    const blob = new Blob([exportData], { type: "application/json" });
+  static exportBinderForGitHub(
+    binder: BinderLayout,
+    cards?: Map<string, PokemonCard>
+  ): void {
+    const exportData = JSON.stringify(
+      this.withCardData(binder, cards),
+      null,
+      2
+    );
+    this.downloadFile(exportData, `${binder.id}.json`, "application/json");
+  }
+
+  // Export the filled slots as CSV for spreadsheets
+  static exportBinderAsCsv(
+    binder: BinderLayout,
+    cards: Map<string, PokemonCard>
+  ): void {
+    const pageSize = binder.dimensions.rows * binder.dimensions.cols;
+    const storedCards = this.getStoredCards(binder);
+
+    const rows = binder.cardPositions.flatMap((pos, index) => {
+      if (!pos.cardId) return [];
+      const card = cards.get(pos.cardId) || storedCards.get(pos.cardId);
+      const price = card ? getMarketPrice(card) : null;
+      return [
+        [
+          Math.floor(index / pageSize) + 1,
+          pos.row + 1,
+          pos.col + 1,
+          pos.cardId,
+          card?.name,
+          card?.set.id,
+          card?.number,
+          card?.rarity,
+          price === null ? "" : price.toFixed(2),
+        ],
+      ];
+    });
+
+    this.downloadFile(
+      toCsv([CSV_COLUMNS, ...rows]),
+      `${binder.id}.csv`,
+      "text/csv"
+    );
+  }
+
+  // Read a CSV of card_id or set_id + number rows and look the cards up.
+  // Rows with page/row/col keep that slot when it's free.
+  static async readBinderCsv(
+    file: File,
+    provider: CardProvider
+  ): Promise<CardImportResult> {
+    const [header, ...rows] = parseCsv(await file.text());
+    if (!header) {
+      return {
+        resolved: [],
+        unresolved: [{ line: 1, text: "", reason: "File is empty" }],
+      };
+    }
+
+    const columns = header.values.map(
+      (name) =>
+        CSV_HEADER_ALIASES[
+          name
+            .trim()
+            .toLowerCase()
+            .replace(/[\s_-]/g, "")
+        ]
+    );
+    const column = (row: string[], name: string) =>
+      (row[columns.indexOf(name)] || "").trim();
+
+    if (
+      !columns.includes("card_id") &&
+      !(columns.includes("set_id") && columns.includes("number"))
+    ) {
+      return {
+        resolved: [],
+        unresolved: [
+          {
+            line: header.line,
+            text: header.values.join(","),
+            reason: 'Needs a "card_id" column or "set_id" and "number" columns',
+          },
+        ],
+      };
+    }
+
+    // Card ids follow "<set id>-<number>", so set/number rows can usually be
+    // fetched in the same batch as id rows
+    const wanted = rows.map(({ line, values: row }) => {
+      const setId = column(row, "set_id");
+      const number = column(row, "number");
+      const cardId =
+        column(row, "card_id") || (setId && number ? `${setId}-${number}` : "");
+      return { line, row, cardId, setId, number };
+    });
+
+    const cardIds = [
+      ...new Set(wanted.map((entry) => entry.cardId).filter(Boolean)),
+    ];
+    const { cards, error } = await provider.getCards(cardIds);
+    const byId = new Map(cards.map((card) => [card.id, card]));
+
+    const resolved: ResolvedImportEntry[] = [];
+    const unresolved: UnresolvedImportEntry[] = [];
+
+    for (const { line, row, cardId, setId, number } of wanted) {
+      const text = row.join(",");
+      if (!cardId) {
+        unresolved.push({ line, text, reason: "No card id or set/number" });
+        continue;
+      }
+
+      let card = byId.get(cardId);
+      // A failed request says nothing about whether the card exists
+      let failedStatus = error?.status;
+      if (!card && setId && number) {
+        // Promos and older sets don't always follow the id convention
+        const result = await provider.search("", { set: setId, number }, 1, 1);
+        failedStatus = result.status === "ok" ? undefined : result.status;
+        if (result.status === "ok" && result.value.data.length > 0) {
+          card = result.value.data[0];
+          byId.set(cardId, card);
+        }
+      }
+
+      if (!card) {
+        unresolved.push({
+          line,
+          text,
+          reason: failedStatus
+            ? `Lookup failed (${failedStatus})`
+            : setId && number
+            ? `No card ${number} in set ${setId}`
+            : `No card with id ${cardId}`,
+        });
+        continue;
+      }
+
+      const page = parseInt(column(row, "page"), 10);
+      const rowNumber = parseInt(column(row, "row"), 10);
+      const col = parseInt(column(row, "col"), 10);
+      resolved.push({
+        line,
+        card,
+        position:
+          page > 0 && rowNumber > 0 && col > 0
+            ? { page, row: rowNumber - 1, col: col - 1 }
+            : undefined,
+      });
+    }
+
+    return { resolved, unresolved };
+  }
+
+  // Resolve a PTCG Live decklist by set code and number. Each copy becomes
+  // its own entry so quantities fill consecutive slots.
+  static async readDecklist(
+    text: string,
+    provider: CardProvider
+  ): Promise<CardImportResult> {
+    const { lines, errors } = parseDecklist(text);
+    const resolved: ResolvedImportEntry[] = [];
+    const unresolved: UnresolvedImportEntry[] = [...errors];
+    // Card, or the reason it couldn't be found, per set code + number
+    const lookups = new Map<string, PokemonCard | string>();
+
+    for (const entry of lines) {
+      const key = `${entry.setCode} ${entry.number}`;
+      if (!lookups.has(key)) {
+        const result = await provider.search(
+          "",
+          { setCode: entry.setCode, number: entry.number },
+          1,
+          1
+        );
+        lookups.set(
+          key,
+          result.status !== "ok"
+            ? `Lookup failed (${result.status})`
+            : result.value.data[0] ||
+                `No card ${entry.number} in set ${entry.setCode}`
+        );
+      }
+
+      const card = lookups.get(key)!;
+      if (typeof card === "string") {
+        unresolved.push({ line: entry.line, text: entry.text, reason: card });
+        continue;
+      }
+
+      for (let copy = 0; copy < entry.quantity; copy++) {
+        resolved.push({ line: entry.line, card });
+      }
+    }
+
+    unresolved.sort((a, b) => a.line - b.line);
+    return { resolved, unresolved };
+  }
+
+  // Fetch every card in a set, a page of the provider's results at a time
+  static async loadSetCards(
+    setId: string,
+    provider: CardProvider
+  ): Promise<{ cards: PokemonCard[]; error?: string }> {
+    const pageSize = 250;
+    const cards: PokemonCard[] = [];
+
+    for (let page = 1; ; page++) {
+      const result = await provider.search("", { set: setId }, page, pageSize);
+      if (result.status !== "ok") {
+        return { cards, error: `Loading the set failed (${result.status})` };
+      }
+      cards.push(...result.value.data);
+      if (
+        result.value.data.length < pageSize ||
+        cards.length >= result.value.totalCount
+      ) {
+        return { cards };
+      }
+    }
+  }
+
+  // A binder with a reserved slot for every card in a set, in collector
+  // number order. Slots start out planned; cards past maxPage are returned.
+  static createChecklistBinder(
+    templateId: string,
+    templates: BinderTemplate[],
+    set: CardSet,
+    cards: PokemonCard[]
+  ): { binder: BinderLayout; unplaced: PokemonCard[] } {
+    const created = this.createBinderFromTemplate(templateId, templates);
+    const sorted = [...cards].sort((a, b) =>
+      compareCollectorNumbers(a.number, b.number)
+    );
+    const { cardPositions, placedIndexes, unplacedIndexes } = addCardsToBinder(
+      created,
+      sorted.map((card) => card.id)
+    );
+    for (const index of placedIndexes) {
+      cardPositions[index] = { ...cardPositions[index], status: "planned" };
+    }
+
+    return {
+      binder: {
+        ...created,
+        name: `${set.name} Master Set`,
+        description: `Checklist for ${set.name} (${set.series})`,
+        cardPositions,
+      },
+      unplaced: unplacedIndexes.map((index) => sorted[index]),
+    };
+  }
+
+  // Load binder templates
+  static async loadTemplates(): Promise<BinderTemplate[]> {
+    try {
+      const response = await fetch(`${this.baseUrl}/templates/index.json`);
+      const data = await response.json();
+      return data.templates || this.getDefaultTemplates();
+    } catch (error) {
+      return this.getDefaultTemplates();
+    }
+  }
+
+  // Read the card snapshot stored with a binder (ignores unknown versions)
+  static getStoredCards(binder: BinderLayout): Map<string, PokemonCard> {
+    const stored = new Map<string, PokemonCard>();
+    if (binder.cardData?.version !== this.CARD_DATA_VERSION) {
+      return stored;
+    }
+
+    for (const [cardId, card] of Object.entries(binder.cardData.cards)) {
+      stored.set(cardId, card);
+    }
+    return stored;
+  }
+
+  // Attach a snapshot of every card placed in the binder. Cards missing from
+  // the map keep whatever the previous snapshot had for them.
+  private static withCardData(
+    binder: BinderLayout,
+    cards?: Map<string, PokemonCard>
+  ): BinderLayout {
+    if (!cards) return binder;
+
+    const previous = this.getStoredCards(binder);
+    const snapshot: Record<string, PokemonCard> = {};
+
+    for (const pos of binder.cardPositions) {
+      if (!pos.cardId || snapshot[pos.cardId]) continue;
+      const card = cards.get(pos.cardId) || previous.get(pos.cardId);
+      if (card && card.images.small) {
+        snapshot[pos.cardId] = card;
+      }
+    }
+
+    return {
+      ...binder,
+      cardData: { version: this.CARD_DATA_VERSION, cards: snapshot },
+    };
+  }
+
+  // Bring stored binder JSON up to the current schema version
+  private static upgradeBinder(
+    raw: unknown,
+    binderId: string
+  ): BinderLayout | null {
+    const migrated = BinderMigrations.migrate(raw);
+    if (!migrated.ok) {
+      console.error(`Cannot load ${binderId}: ${migrated.error}`);
+      return null;
+    }
+    // Copies removed from the collection leave links behind in other binders
+    return CollectionService.unlinkRemovedCopies(
+      migrated.binder as unknown as BinderLayout
+    );
+  }
+
+  private static downloadFile(
+    content: string,
+    fileName: string,
+    type: string
+  ): void {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `${binder.id}.json`;
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   }
 
-  // Load binder templates
-  static async loadTemplates(): Promise<BinderTemplate[]> {
+  private static generateBinderId(): string {
+    const existing = this.getLocalBinderIds();
+    let id = `binder-${Date.now()}`;
+    for (let suffix = 2; existing.includes(id); suffix++) {
+      id = `binder-${Date.now()}-${suffix}`;
+    }
+    return id;
+  }
+
+  static async loadGitHubBinderIds(): Promise<string[]> {
     try {
-      const response = await fetch(`${this.baseUrl}/templates/index.json`);
+      const response = await fetch(`${this.baseUrl}/index.json`);
       const data = await response.json();
-      return data.templates || this.getDefaultTemplates();
+      return data.binders || [];
     } catch (error) {
-      return this.getDefaultTemplates();
+      console.log("No GitHub binder index found, using local only");
+      return [];
     }
   }
 
   private static getLocalBinderIds(): string[] {
     const stored = localStorage.getItem("binder-index");
-    return stored ? JSON.parse(stored) : [];
+    if (!stored) return [];
+
+    try {
+      const ids = JSON.parse(stored);
+      return Array.isArray(ids) ? ids : [];
+    } catch (error) {
+      console.error("Failed to read binder index:", error);
+      return [];
+    }
   }
 
   private static updateLocalIndex(binderId: string): void {
@@ -140,6 +678,7 @@ export class DataService {
     const totalSlots = template.dimensions.rows * template.dimensions.cols;
 
     return {
+      schemaVersion: BinderMigrations.CURRENT_VERSION,
       id: `binder-${Date.now()}`,
       name: `New ${template.name}`,
       description: `Created from ${template.name} template`,
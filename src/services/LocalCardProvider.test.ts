@@ -0,0 +1,100 @@
+import { readFile } from "node:fs/promises";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LocalCardProvider } from "./LocalCardProvider";
+
+// Serves files from public/data the way the dev server would
+const serveDataDir = async (url: string): Promise<Response> => {
+  const path = url.replace(/^.*\/data\//, "public/data/");
+  try {
+    return new Response(await readFile(path, "utf8"));
+  } catch {
+    return new Response("Not found", { status: 404 });
+  }
+};
+
+describe("LocalCardProvider", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn(serveDataDir));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("loads the default dump once and searches it by name", async () => {
+    const provider = new LocalCardProvider();
+
+    const result = await provider.search("chari");
+    await provider.search("pika");
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({
+      status: "ok",
+      value: {
+        totalCount: 2,
+        data: [
+          expect.objectContaining({ id: "sv3-125" }),
+          expect.objectContaining({ id: "base1-4" }),
+        ],
+      },
+    });
+  });
+
+  it("applies filters and pages through matches", async () => {
+    const provider = new LocalCardProvider();
+
+    const fire = await provider.search("", { set: "base1", type: "fire" });
+    const secondPage = await provider.search("", {}, 2, 3);
+
+    expect(fire.status === "ok" && fire.value.data.map((c) => c.id)).toEqual([
+      "base1-4",
+      "base1-46",
+    ]);
+    expect(secondPage.status === "ok" && secondPage.value).toEqual({
+      data: [expect.objectContaining({ id: "base1-58" })],
+      totalCount: 4,
+    });
+  });
+
+  it("looks up cards by id and reports the ones it doesn't have", async () => {
+    const provider = new LocalCardProvider();
+
+    expect((await provider.getCard("base1-58"))?.name).toBe("Pikachu");
+    expect(await provider.getCard("base1-999")).toBeNull();
+    expect(await provider.getCards(["base1-4", "xy1-1", "base1-4"])).toEqual({
+      cards: [expect.objectContaining({ id: "base1-4" })],
+      failedIds: ["xy1-1"],
+    });
+  });
+
+  it("lists sets newest first with card counts", async () => {
+    const sets = await new LocalCardProvider().listSets();
+
+    expect(sets.map((set) => [set.id, set.total])).toEqual([
+      ["sv3", 1],
+      ["base1", 3],
+    ]);
+  });
+
+  it("reports a missing dump as a network error and retries later", async () => {
+    const provider = new LocalCardProvider("cards/missing.json");
+
+    const first = await provider.search("pikachu");
+    const second = await provider.search("pikachu");
+
+    expect(first).toEqual({
+      status: "network",
+      message: "Could not load cards/missing.json: HTTP 404",
+    });
+    expect(second.status).toBe("network");
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(await provider.getCards(["base1-4"])).toEqual({
+      cards: [],
+      failedIds: ["base1-4"],
+      error: first,
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import type { CardFilters, CardSet, PokemonCard } from "../types/Card";
+import type {
+  CardBatchResult,
+  CardProvider,
+  CardRequestResult,
+  CardSearchResult,
+} from "./CardProvider";
+import { DataService } from "./DataService";
+import {
+  compareByReleaseThenName,
+  matchesCardFilters,
+  matchesCardName,
+} from "../utils/cardFilters";
+
+// Serves cards from a self-hosted dump under public/data. Accepts a JSON
+// array, an API-style `{ data: [...] }` object, or NDJSON (one card per line).
+export class LocalCardProvider implements CardProvider {
+  readonly id = "local";
+  readonly name = "Local card dump";
+
+  private readonly path: string;
+  private cardsPromise: Promise<Map<string, PokemonCard>> | null = null;
+  private loadError: string | null = null;
+
+  constructor(path: string = "cards/cards.json") {
+    this.path = path;
+  }
+
+  async search(
+    query: string,
+    filters: CardFilters = {},
+    page: number = 1,
+    pageSize: number = 20
+  ): Promise<CardRequestResult<CardSearchResult>> {
+    const cards = await this.loadCards();
+    if (this.loadError) {
+      return { status: "network", message: this.loadError };
+    }
+
+    const matches = [...cards.values()]
+      .filter(
+        (card) =>
+          matchesCardName(card, query) && matchesCardFilters(card, filters)
+      )
+      .sort(compareByReleaseThenName);
+
+    const start = (Math.max(page, 1) - 1) * pageSize;
+    return {
+      status: "ok",
+      value: {
+        data: matches.slice(start, start + pageSize),
+        totalCount: matches.length,
+      },
+    };
+  }
+
+  async getCard(cardId: string): Promise<PokemonCard | null> {
+    const cards = await this.loadCards();
+    return cards.get(cardId) || null;
+  }
+
+  async getCards(cardIds: string[]): Promise<CardBatchResult> {
+    const cards = await this.loadCards();
+    const uniqueIds = [...new Set(cardIds)];
+
+    return {
+      cards: uniqueIds
+        .filter((cardId) => cards.has(cardId))
+        .map((cardId) => cards.get(cardId)!),
+      failedIds: uniqueIds.filter((cardId) => !cards.has(cardId)),
+      error: this.loadError
+        ? { status: "network", message: this.loadError }
+        : undefined,
+    };
+  }
+
+  async listSets(): Promise<CardSet[]> {
+    const cards = await this.loadCards();
+    const sets = new Map<string, CardSet>();
+
+    for (const card of cards.values()) {
+      const existing = sets.get(card.set.id);
+      if (existing) {
+        existing.total = (existing.total || 0) + 1;
+      } else {
+        sets.set(card.set.id, { ...card.set, total: 1 });
+      }
+    }
+
+    return [...sets.values()].sort((a, b) =>
+      (b.releaseDate || "").localeCompare(a.releaseDate || "")
+    );
+  }
+
+  private loadCards(): Promise<Map<string, PokemonCard>> {
+    if (!this.cardsPromise) {
+      this.loadError = null;
+      this.cardsPromise = this.fetchDump().catch((error) => {
+        console.error(`📂 Failed to load card dump ${this.path}:`, error);
+        this.loadError = `Could not load ${this.path}: ${error.message}`;
+        this.cardsPromise = null;
+        return new Map<string, PokemonCard>();
+      });
+    }
+    return this.cardsPromise;
+  }
+
+  private async fetchDump(): Promise<Map<string, PokemonCard>> {
+    const response = await fetch(DataService.getDataUrl(this.path));
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const text = await response.text();
+    const cards = this.path.endsWith(".ndjson")
+      ? this.parseNdjson(text)
+      : this.parseJson(text);
+
+    console.log(`📂 Loaded ${cards.length} cards from ${this.path}`);
+    return new Map(cards.map((card) => [card.id, card]));
+  }
+
+  private parseJson(text: string): PokemonCard[] {
+    const parsed = JSON.parse(text);
+    return Array.isArray(parsed) ? parsed : parsed.data || [];
+  }
+
+  private parseNdjson(text: string): PokemonCard[] {
+    return text
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+  }
+}
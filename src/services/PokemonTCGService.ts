@@ -1,4 +1,12 @@
-import type { PokemonCard } from "../types/Card";
+import type { CardFilters, CardSet, PokemonCard } from "../types/Card";
+import type {
+  CardBatchResult,
+  CardProvider,
+  CardRequestError,
+  CardRequestResult,
+  CardSearchResult,
+} from "./CardProvider";
+import { CardCatalogService } from "./CardCatalogService";
 
 interface CacheEntry {
   data: PokemonCard[];
@@ -14,23 +22,28 @@ export class PokemonTCGService {
   private static cache = new Map<string, CacheEntry>();
   private static readonly CACHE_DURATION = 5 * 60 * 1000; // Reduced to 5 minutes
   private static pendingRequests = new Map<string, Promise<any>>();
+  private static readonly CARD_BATCH_SIZE = 40; // Keeps OR queries under URL limits
+  private static setsCache: { data: CardSet[]; expires: number } | null = null;
+  private static readonly SETS_CACHE_DURATION = 60 * 60 * 1000; // Sets rarely change
+  private static readonly REQUEST_TIMEOUT = 60000; // 1 minute timeout
+  private static readonly MAX_RATE_LIMIT_RETRIES = 3;
+  private static readonly MAX_RETRY_DELAY = 30000;
 
   // Main search - back to simple but cached approach
   static async searchCards(
     query: string,
     page: number = 1,
-    pageSize: number = 20
-  ): Promise<{
-    data: PokemonCard[];
-    totalCount: number;
-  }> {
-    const cacheKey = `search:${query}:${page}:${pageSize}`;
+    pageSize: number = 20,
+    filters: CardFilters = {}
+  ): Promise<CardRequestResult<CardSearchResult>> {
+    const searchQuery = this.buildQuery(query, filters);
+    const cacheKey = `search:${searchQuery}:${page}:${pageSize}`;
 
     // Return cached result immediately
     const cached = this.getFromCache(cacheKey);
     if (cached) {
       console.log(`✅ Cache hit for: ${query}`);
-      return cached;
+      return { status: "ok", value: cached };
     }
 
     // Deduplicate simultaneous requests
@@ -41,20 +54,22 @@ export class PokemonTCGService {
 
     console.log(`🔍 Making API request for: ${query}`);
 
-    // Simple, reliable query
-    const searchQuery = `name:${query}*`;
     const url = `${this.baseUrl}/cards?q=${encodeURIComponent(
       searchQuery
     )}&page=${page}&pageSize=${pageSize}&orderBy=-set.releaseDate,name`;
 
     console.log(`🌐 URL: ${url}`);
 
-    const requestPromise = this.makeRequest(url, cacheKey);
+    const requestPromise = this.makeRequest(url, cacheKey, () =>
+      CardCatalogService.search(query, filters, page, pageSize)
+    );
     this.pendingRequests.set(cacheKey, requestPromise);
 
     try {
       const result = await requestPromise;
-      console.log(`✅ Found ${result.data.length} cards for: ${query}`);
+      if (result.status === "ok") {
+        console.log(`✅ Found ${result.value.data.length} cards for: ${query}`);
+      }
       return result;
     } finally {
       this.pendingRequests.delete(cacheKey);
@@ -65,15 +80,14 @@ export class PokemonTCGService {
   static async searchCardsByPopularity(
     query: string,
     page: number = 1,
-    pageSize: number = 20
-  ): Promise<{
-    data: PokemonCard[];
-    totalCount: number;
-  }> {
-    const cacheKey = `popular:${query}:${page}:${pageSize}`;
+    pageSize: number = 20,
+    filters: CardFilters = {}
+  ): Promise<CardRequestResult<CardSearchResult>> {
+    const baseQuery = this.buildQuery(query, filters);
+    const cacheKey = `popular:${baseQuery}:${page}:${pageSize}`;
 
     const cached = this.getFromCache(cacheKey);
-    if (cached) return cached;
+    if (cached) return { status: "ok", value: cached };
 
     console.log(`🔥 Popular search for: ${query}`);
 
@@ -81,24 +95,27 @@ export class PokemonTCGService {
     const recentSets = ["sv4pt5", "sv4", "sv3pt5", "sv3", "sv2"];
 
     for (const setId of recentSets) {
-      try {
-        const searchQuery = `name:${query}* set.id:${setId}`;
-        const url = `${this.baseUrl}/cards?q=${encodeURIComponent(
-          searchQuery
-        )}&pageSize=${pageSize}&orderBy=name`;
-
-        console.log(`🎯 Trying set ${setId} for ${query}`);
-
-        const result = await this.makeRequest(url, `${cacheKey}:${setId}`);
-
-        if (result.data.length > 0) {
-          console.log(`✅ Found ${result.data.length} cards in set ${setId}`);
-          this.cacheResult(cacheKey, result);
-          return result;
-        }
-      } catch (error) {
-        console.log(`❌ Set ${setId} failed, trying next...`);
-        continue;
+      const searchQuery = `${baseQuery} set.id:${setId}`;
+      const url = `${this.baseUrl}/cards?q=${encodeURIComponent(
+        searchQuery
+      )}&pageSize=${pageSize}&orderBy=name`;
+
+      console.log(`🎯 Trying set ${setId} for ${query}`);
+
+      const result = await this.makeRequest(url, `${cacheKey}:${setId}`);
+
+      // Don't keep hammering an API that is refusing us
+      if (result.status !== "ok") {
+        console.log(`❌ Set ${setId} failed: ${result.status}`);
+        return result;
+      }
+
+      if (result.value.data.length > 0) {
+        console.log(
+          `✅ Found ${result.value.data.length} cards in set ${setId}`
+        );
+        this.cacheResult(cacheKey, result.value);
+        return result;
       }
     }
 
@@ -106,22 +123,21 @@ export class PokemonTCGService {
       `⚠️ No cards found in recent sets, falling back to general search`
     );
     // Fallback to regular search
-    return this.searchCards(query, page, pageSize);
+    return this.searchCards(query, page, pageSize, filters);
   }
 
   // Rare cards - simplified approach
   static async searchCardsByRarity(
     query: string,
     page: number = 1,
-    pageSize: number = 20
-  ): Promise<{
-    data: PokemonCard[];
-    totalCount: number;
-  }> {
-    const cacheKey = `rare:${query}:${page}:${pageSize}`;
+    pageSize: number = 20,
+    filters: CardFilters = {}
+  ): Promise<CardRequestResult<CardSearchResult>> {
+    const baseQuery = this.buildQuery(query, filters);
+    const cacheKey = `rare:${baseQuery}:${page}:${pageSize}`;
 
     const cached = this.getFromCache(cacheKey);
-    if (cached) return cached;
+    if (cached) return { status: "ok", value: cached };
 
     console.log(`⭐ Rare search for: ${query}`);
 
@@ -135,68 +151,164 @@ export class PokemonTCGService {
     ];
 
     for (const rarity of rarities) {
-      try {
-        const searchQuery = `name:${query}* rarity:"${rarity}"`;
-        const url = `${this.baseUrl}/cards?q=${encodeURIComponent(
-          searchQuery
-        )}&pageSize=${pageSize}&orderBy=-set.releaseDate,name`;
-
-        console.log(`🎯 Trying rarity "${rarity}" for ${query}`);
-
-        const result = await this.makeRequest(url, `${cacheKey}:${rarity}`);
-
-        if (result.data.length > 0) {
-          console.log(`✅ Found ${result.data.length} ${rarity} cards`);
-          this.cacheResult(cacheKey, result);
-          return result;
-        }
-      } catch (error) {
-        console.log(`❌ Rarity "${rarity}" failed, trying next...`);
-        continue;
+      const searchQuery = `${baseQuery} rarity:${this.quoteValue(rarity)}`;
+      const url = `${this.baseUrl}/cards?q=${encodeURIComponent(
+        searchQuery
+      )}&pageSize=${pageSize}&orderBy=-set.releaseDate,name`;
+
+      console.log(`🎯 Trying rarity "${rarity}" for ${query}`);
+
+      const result = await this.makeRequest(url, `${cacheKey}:${rarity}`);
+
+      if (result.status !== "ok") {
+        console.log(`❌ Rarity "${rarity}" failed: ${result.status}`);
+        return result;
+      }
+
+      if (result.value.data.length > 0) {
+        console.log(`✅ Found ${result.value.data.length} ${rarity} cards`);
+        this.cacheResult(cacheKey, result.value);
+        return result;
       }
     }
 
     console.log(`⚠️ No rare cards found, falling back to general search`);
-    return this.searchCards(query, page, pageSize);
+    return this.searchCards(query, page, pageSize, filters);
   }
 
   // Quick/exact search - most reliable
   static async quickSearch(
     query: string,
-    pageSize: number = 16
-  ): Promise<PokemonCard[]> {
-    const cacheKey = `exact:${query}:${pageSize}`;
+    pageSize: number = 16,
+    filters: CardFilters = {}
+  ): Promise<CardRequestResult<PokemonCard[]>> {
+    const filterQuery = this.buildFilterQuery(filters);
+    const cacheKey = `exact:${query}:${filterQuery}:${pageSize}`;
 
     const cached = this.getFromCache(cacheKey);
-    if (cached) return cached.data;
+    if (cached) return { status: "ok", value: cached.data };
 
     console.log(`🎯 Exact search for: ${query}`);
 
-    try {
-      // Exact name match
-      const searchQuery = `name:"${query}"`;
-      const url = `${this.baseUrl}/cards?q=${encodeURIComponent(
-        searchQuery
-      )}&pageSize=${pageSize}&orderBy=-set.releaseDate,name`;
+    // Exact name match
+    const searchQuery = [`name:${this.quoteValue(query)}`, filterQuery]
+      .filter(Boolean)
+      .join(" ");
+    const url = `${this.baseUrl}/cards?q=${encodeURIComponent(
+      searchQuery
+    )}&pageSize=${pageSize}&orderBy=-set.releaseDate,name`;
 
-      const result = await this.makeRequest(url, cacheKey);
-      console.log(`✅ Exact search found ${result.data.length} cards`);
+    const result = await this.makeRequest(url, cacheKey, () =>
+      CardCatalogService.search(query, filters, 1, pageSize, true)
+    );
+    if (result.status !== "ok") {
+      console.error(`❌ Exact search failed: ${result.status}`);
+      return result;
+    }
 
-      return result.data;
-    } catch (error) {
-      console.error(`❌ Exact search failed:`, error);
-      return [];
+    console.log(`✅ Exact search found ${result.value.data.length} cards`);
+    return { ...result, value: result.value.data };
+  }
+
+  // Compile a name prefix and structured filters into a Lucene-style q string
+  static buildQuery(query: string, filters: CardFilters = {}): string {
+    const name = query.trim();
+    const nameClause = name ? `name:${this.escapeTerm(name)}*` : "";
+
+    return [nameClause, this.buildFilterQuery(filters)]
+      .filter(Boolean)
+      .join(" ");
+  }
+
+  static buildFilterQuery(filters: CardFilters): string {
+    const clauses: string[] = [];
+    const add = (field: string, value?: string) => {
+      if (value && value.trim()) {
+        clauses.push(`${field}:${this.quoteValue(value.trim())}`);
+      }
+    };
+
+    add("set.id", filters.set);
+    add("set.ptcgoCode", filters.setCode);
+    add("number", filters.number);
+    add("set.series", filters.series);
+    add("rarity", filters.rarity);
+    add("supertype", filters.supertype);
+    add("types", filters.type);
+    add("regulationMark", filters.regulationMark);
+
+    if (filters.releasedAfter || filters.releasedBefore) {
+      const from = this.formatQueryDate(filters.releasedAfter) || "*";
+      const to = this.formatQueryDate(filters.releasedBefore) || "*";
+      clauses.push(`set.releaseDate:[${from} TO ${to}]`);
     }
+
+    return clauses.join(" ");
+  }
+
+  static hasFilters(filters: CardFilters): boolean {
+    return Object.values(filters).some((value) => value && value.trim());
+  }
+
+  // Escape Lucene special characters (and spaces) in an unquoted term
+  private static escapeTerm(value: string): string {
+    return value.replace(/[+\-!(){}[\]^"~*?:\\/&|\s]/g, "\\$&");
   }
 
-  // Core request method with better error handling
+  // Quote a phrase value, escaping the characters that are special inside quotes
+  private static quoteValue(value: string): string {
+    return `"${value.replace(/["\\]/g, "\\$&")}"`;
+  }
+
+  // The API stores release dates as YYYY/MM/DD
+  private static formatQueryDate(date?: string): string | null {
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+    return date.replace(/-/g, "/");
+  }
+
+  // Core request method - retries rate limits with backoff and reports
+  // every other failure as a typed result
   private static async makeRequest(
     url: string,
-    cacheKey: string
-  ): Promise<{
-    data: PokemonCard[];
-    totalCount: number;
-  }> {
+    cacheKey: string,
+    fallback?: () => Promise<CardSearchResult>
+  ): Promise<CardRequestResult<CardSearchResult>> {
+    let result = await this.sendRequest(url, cacheKey, 0);
+
+    for (
+      let attempt = 1;
+      result.status === "rate-limited" && attempt <= this.MAX_RATE_LIMIT_RETRIES;
+      attempt++
+    ) {
+      const delay = Math.min(result.retryAfter * 1000, this.MAX_RETRY_DELAY);
+      console.log(`🐢 Rate limited, retry ${attempt} in ${delay}ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      result = await this.sendRequest(url, cacheKey, attempt);
+    }
+
+    if (result.status === "ok") return result;
+
+    // Offline or API down - answer from the local catalog if we can
+    const unreachable =
+      result.status === "network" ||
+      result.status === "timeout" ||
+      result.status === "server";
+    if (fallback && unreachable) {
+      console.log(`📴 Falling back to offline catalog for ${cacheKey}`);
+      const offline = await fallback();
+      if (offline.data.length > 0) {
+        return { status: "ok", value: offline, offline: true };
+      }
+    }
+
+    return result;
+  }
+
+  private static async sendRequest(
+    url: string,
+    cacheKey: string,
+    attempt: number
+  ): Promise<CardRequestResult<CardSearchResult>> {
     try {
       const headers: Record<string, string> = {};
 
@@ -213,7 +325,7 @@ export class PokemonTCGService {
       const timeoutId = setTimeout(() => {
         console.log(`⏰ Request timeout for: ${url}`);
         controller.abort();
-      }, 60000); // 1 minute timeout
+      }, this.REQUEST_TIMEOUT);
 
       const response = await fetch(url, {
         headers,
@@ -227,7 +339,7 @@ export class PokemonTCGService {
       if (!response.ok) {
         const errorText = await response.text();
         console.error(`❌ API Error ${response.status}: ${errorText}`);
-        throw new Error(`HTTP ${response.status}: ${errorText}`);
+        return this.toErrorResult(response, errorText, attempt);
       }
 
       const result = await response.json();
@@ -240,19 +352,58 @@ export class PokemonTCGService {
 
       // Cache successful results
       this.cacheResult(cacheKey, data);
+      CardCatalogService.saveCards(data.data);
 
-      return data;
+      return { status: "ok", value: data };
     } catch (error) {
       console.error(`💥 Request failed for ${cacheKey}:`, error);
 
-      // Return empty result instead of throwing
+      if (error instanceof DOMException && error.name === "AbortError") {
+        return { status: "timeout" };
+      }
       return {
-        data: [],
-        totalCount: 0,
+        status: "network",
+        message: error instanceof Error ? error.message : String(error),
       };
     }
   }
 
+  private static toErrorResult(
+    response: Response,
+    errorText: string,
+    attempt: number
+  ): CardRequestError {
+    const code = response.status;
+
+    if (code === 429) {
+      return {
+        status: "rate-limited",
+        retryAfter:
+          this.parseRetryAfter(response.headers.get("Retry-After")) ??
+          2 ** attempt,
+      };
+    }
+    if (code === 401 || code === 403) {
+      return { status: "auth", message: errorText };
+    }
+    if (code >= 500) {
+      return { status: "server", code, message: errorText };
+    }
+    return { status: "bad-request", code, message: errorText };
+  }
+
+  // Retry-After is either a number of seconds or an HTTP date
+  private static parseRetryAfter(header: string | null): number | null {
+    if (!header) return null;
+
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) return Math.max(seconds, 0);
+
+    const date = Date.parse(header);
+    if (Number.isNaN(date)) return null;
+    return Math.max(Math.ceil((date - Date.now()) / 1000), 0);
+  }
+
   // Simple cache methods
   private static getFromCache(
     cacheKey: string
@@ -289,6 +440,9 @@ export class PokemonTCGService {
 
   // Utility methods
   static async getCard(cardId: string): Promise<PokemonCard | null> {
+    const cached = this.getFromCache(`card:${cardId}`);
+    if (cached) return cached.data[0] || null;
+
     try {
       const headers: Record<string, string> = {};
       if (this.apiKey) {
@@ -299,13 +453,156 @@ export class PokemonTCGService {
         headers,
       });
 
-      if (!response.ok) return null;
+      if (!response.ok) return CardCatalogService.getCard(cardId);
 
       const result = await response.json();
+      this.cacheResult(`card:${cardId}`, { data: [result.data], totalCount: 1 });
+      CardCatalogService.saveCards([result.data]);
       return result.data;
     } catch (error) {
       console.error("Get card failed:", error);
-      return null;
+      return CardCatalogService.getCard(cardId);
+    }
+  }
+
+  // Batched lookup - resolves many ids with a handful of OR queries
+  static async getCards(cardIds: string[]): Promise<CardBatchResult> {
+    const uniqueIds = [...new Set(cardIds)];
+    const found = new Map<string, PokemonCard>();
+    const waiting: Promise<void>[] = [];
+    const toFetch: string[] = [];
+    let error: CardRequestError | undefined;
+
+    for (const cardId of uniqueIds) {
+      const cacheKey = `card:${cardId}`;
+
+      const cached = this.getFromCache(cacheKey);
+      if (cached && cached.data[0]) {
+        found.set(cardId, cached.data[0]);
+        continue;
+      }
+
+      // Another caller is already fetching this card
+      const pending = this.pendingRequests.get(cacheKey);
+      if (pending) {
+        waiting.push(
+          pending.then((card: PokemonCard | null) => {
+            if (card) found.set(cardId, card);
+          })
+        );
+        continue;
+      }
+
+      toFetch.push(cardId);
+    }
+
+    console.log(
+      `📦 Batch lookup: ${found.size} cached, ${toFetch.length} to fetch`
+    );
+
+    // Chunks run one after another so big binders don't flood the API
+    let queue: Promise<unknown> = Promise.resolve();
+    for (let i = 0; i < toFetch.length; i += this.CARD_BATCH_SIZE) {
+      const chunk = toFetch.slice(i, i + this.CARD_BATCH_SIZE);
+      const chunkPromise = queue
+        .then(() => this.fetchCardChunk(chunk))
+        .then((chunkResult) => {
+          error = error || chunkResult.error;
+          return chunkResult.cardsById;
+        });
+      queue = chunkPromise;
+
+      for (const cardId of chunk) {
+        const cacheKey = `card:${cardId}`;
+        const cardPromise = chunkPromise.then(
+          (cardsById) => cardsById.get(cardId) || null
+        );
+        this.pendingRequests.set(cacheKey, cardPromise);
+
+        waiting.push(
+          cardPromise
+            .then((card) => {
+              if (card) found.set(cardId, card);
+            })
+            .finally(() => this.pendingRequests.delete(cacheKey))
+        );
+      }
+    }
+
+    await Promise.all(waiting);
+
+    const failedIds = uniqueIds.filter((cardId) => !found.has(cardId));
+    if (failedIds.length > 0) {
+      console.log(`⚠️ Could not resolve ${failedIds.length} cards`);
+    }
+
+    return {
+      cards: uniqueIds
+        .filter((cardId) => found.has(cardId))
+        .map((cardId) => found.get(cardId)!),
+      failedIds,
+      error,
+    };
+  }
+
+  private static async fetchCardChunk(
+    cardIds: string[]
+  ): Promise<{
+    cardsById: Map<string, PokemonCard>;
+    error?: CardRequestError;
+  }> {
+    const searchQuery = cardIds.map((cardId) => `id:"${cardId}"`).join(" OR ");
+    const url = `${this.baseUrl}/cards?q=${encodeURIComponent(
+      searchQuery
+    )}&pageSize=${cardIds.length}`;
+
+    const result = await this.makeRequest(
+      url,
+      `batch:${cardIds.join(",")}`,
+      async () => {
+        const data = await CardCatalogService.getCards(cardIds);
+        return { data, totalCount: data.length };
+      }
+    );
+
+    const cardsById = new Map<string, PokemonCard>();
+    if (result.status !== "ok") return { cardsById, error: result };
+
+    for (const card of result.value.data) {
+      cardsById.set(card.id, card);
+      this.cacheResult(`card:${card.id}`, { data: [card], totalCount: 1 });
+    }
+    return { cardsById };
+  }
+
+  // Every set, newest first
+  static async listSets(): Promise<CardSet[]> {
+    if (this.setsCache && Date.now() < this.setsCache.expires) {
+      return this.setsCache.data;
+    }
+
+    try {
+      const headers: Record<string, string> = {};
+      if (this.apiKey) {
+        headers["X-Api-Key"] = this.apiKey;
+      }
+
+      const response = await fetch(
+        `${this.baseUrl}/sets?orderBy=-releaseDate&pageSize=250`,
+        { headers }
+      );
+      if (!response.ok) return [];
+
+      const result = await response.json();
+      const sets: CardSet[] = result.data || [];
+      this.setsCache = {
+        data: sets,
+        expires: Date.now() + this.SETS_CACHE_DURATION,
+      };
+      return sets;
+    } catch (error) {
+      console.error("List sets failed:", error);
+      return [];
     }
   }
 
@@ -328,11 +625,12 @@ export class PokemonTCGService {
     try {
       console.log("🔧 Testing API connection...");
       const result = await this.searchCards("pikachu", 1, 5);
-      const success = result.data.length > 0;
+      const found = result.status === "ok" ? result.value.data.length : 0;
+      const success = found > 0 && result.status === "ok" && !result.offline;
       console.log(
-        `🔧 API test ${success ? "PASSED" : "FAILED"}: found ${
-          result.data.length
-        } cards`
+        `🔧 API test ${success ? "PASSED" : "FAILED"}: ${
+          result.status === "ok" ? `found ${found} cards` : result.status
+        }`
       );
       return success;
     } catch (error) {
@@ -341,3 +639,14 @@ export class PokemonTCGService {
     }
   }
 }
+
+// CardProvider adapter over the static pokemontcg.io client
+export const pokemonTCGProvider: CardProvider = {
+  id: "pokemontcg",
+  name: "pokemontcg.io",
+  search: (query, filters = {}, page = 1, pageSize = 20) =>
+    PokemonTCGService.searchCards(query, page, pageSize, filters),
+  getCard: (cardId) => PokemonTCGService.getCard(cardId),
+  getCards: (cardIds) => PokemonTCGService.getCards(cardIds),
+  listSets: () => PokemonTCGService.listSets(),
+};
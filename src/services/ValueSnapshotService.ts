@@ -0,0 +1,77 @@
+import type { ValueSnapshot } from "../types/Pricing";
+import type { BinderValuation } from "../utils/valuation";
+import { collectPrices } from "../utils/valuation";
+
+// Timestamped binder values, stored per binder so they can be compared over
+// time. Oldest first.
+export class ValueSnapshotService {
+  private static readonly KEY_PREFIX = "binder-values-";
+  private static readonly THRESHOLD_KEY = "price-alert-threshold";
+
+  // Opening a binder takes a snapshot when the last one is at least this old
+  static readonly SNAPSHOT_INTERVAL = 24 * 60 * 60 * 1000;
+
+  // Oldest snapshots are dropped past this, to stay within localStorage
+  private static readonly MAX_SNAPSHOTS = 180;
+
+  static readonly DEFAULT_THRESHOLD = 10; // percent
+
+  static getSnapshots(binderId: string): ValueSnapshot[] {
+    const stored = localStorage.getItem(this.KEY_PREFIX + binderId);
+    if (!stored) return [];
+
+    try {
+      const snapshots = JSON.parse(stored);
+      return Array.isArray(snapshots) ? snapshots : [];
+    } catch (error) {
+      console.error("💰 Failed to read value snapshots:", error);
+      return [];
+    }
+  }
+
+  static getLatest(binderId: string): ValueSnapshot | null {
+    const snapshots = this.getSnapshots(binderId);
+    return snapshots[snapshots.length - 1] || null;
+  }
+
+  static isSnapshotDue(binderId: string): boolean {
+    const latest = this.getLatest(binderId);
+    return (
+      !latest ||
+      Date.now() - Date.parse(latest.takenAt) >= this.SNAPSHOT_INTERVAL
+    );
+  }
+
+  static takeSnapshot(
+    binderId: string,
+    valuation: BinderValuation
+  ): ValueSnapshot {
+    const snapshot: ValueSnapshot = {
+      takenAt: new Date().toISOString(),
+      total: valuation.total,
+      prices: collectPrices(valuation),
+    };
+    localStorage.setItem(
+      this.KEY_PREFIX + binderId,
+      JSON.stringify(
+        [...this.getSnapshots(binderId), snapshot].slice(-this.MAX_SNAPSHOTS)
+      )
+    );
+    console.log(`💰 Saved value snapshot for ${binderId}`);
+    return snapshot;
+  }
+
+  static deleteSnapshots(binderId: string): void {
+    localStorage.removeItem(this.KEY_PREFIX + binderId);
+  }
+
+  // Smallest price change, in percent, worth listing as a price move
+  static getAlertThreshold(): number {
+    const stored = parseFloat(localStorage.getItem(this.THRESHOLD_KEY) || "");
+    return stored > 0 ? stored : this.DEFAULT_THRESHOLD;
+  }
+
+  static setAlertThreshold(percent: number): void {
+    localStorage.setItem(this.THRESHOLD_KEY, String(percent));
+  }
+}
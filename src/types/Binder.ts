@@ -1,12 +1,21 @@
+import type { PokemonCard } from "./Card";
+
 export interface CardPosition {
   cardId: string | null;
   row: number;
   col: number;
   rotation?: number;
   isEmpty?: boolean;
+  // Checklist binders reserve slots for cards not collected yet. Missing
+  // status means owned, which is what every older binder holds.
+  status?: SlotStatus;
+  copyId?: string; // the OwnedCopy in the collection this slot holds
 }
 
+export type SlotStatus = "planned" | "owned";
+
 export interface BinderLayout {
+  schemaVersion: number; // see BinderMigrations
   id: string;
   name: string;
   description?: string;
@@ -19,6 +28,27 @@ export interface BinderLayout {
   maxPage?: number;
   createdAt: string;
   updatedAt: string;
+  cardData?: BinderCardData;
+}
+
+// Snapshot of the card details a binder references, so it can be rendered
+// without a round trip to the card API
+export interface BinderCardData {
+  version: number;
+  cards: Record<string, PokemonCard>;
+}
+
+// Lightweight listing entry for the binder library
+export interface BinderSummary {
+  id: string;
+  name: string;
+  template: string;
+  filledSlots: number;
+  totalSlots: number;
+  coverImage: string | null;
+  createdAt: string;
+  updatedAt: string;
+  source: "local" | "github"; // GitHub binders are read-only here
 }
 
 export interface BinderTemplate {
@@ -29,3 +59,22 @@ export interface BinderTemplate {
   isDefault: boolean;
   maxPage: number;
 }
+
+// A card resolved from an imported list (CSV, decklist, ...). `position`
+// pins it to an exact slot; without one it goes into the next free slot.
+export interface ResolvedImportEntry {
+  line: number;
+  card: PokemonCard;
+  position?: { page: number; row: number; col: number };
+}
+
+export interface UnresolvedImportEntry {
+  line: number;
+  text: string;
+  reason: string;
+}
+
+export interface CardImportResult {
+  resolved: ResolvedImportEntry[];
+  unresolved: UnresolvedImportEntry[];
+}
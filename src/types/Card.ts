@@ -1,10 +1,29 @@
 export interface PokemonCard {
   id: string;
   name: string;
+  supertype?: string; // Pokémon, Trainer or Energy
+  subtypes?: string[]; // e.g. ["Basic", "ex"]
+  hp?: string;
+  types?: string[];
+  evolvesFrom?: string;
+  abilities?: CardAbility[];
+  attacks?: CardAttack[];
+  weaknesses?: CardTypeModifier[];
+  resistances?: CardTypeModifier[];
+  retreatCost?: string[];
+  rules?: string[]; // rule boxes and Trainer/Energy text
+  flavorText?: string;
+  artist?: string;
+  nationalPokedexNumbers?: number[];
+  regulationMark?: string;
+  legalities?: CardLegalities;
   set: {
     id: string;
     name: string;
     series: string;
+    ptcgoCode?: string; // code used in decklists, e.g. "OBF"
+    releaseDate?: string; // YYYY/MM/DD
+    legalities?: CardLegalities;
   };
   number: string;
   rarity: string;
@@ -12,16 +31,82 @@ export interface PokemonCard {
     small: string;
     large: string;
   };
-  tcgplayer?: {
-    prices?: {
-      holofoil?: { market: number };
-      normal?: { market: number };
-    };
-  };
+  tcgplayer?: TcgPlayerInfo;
+}
+
+export interface CardAbility {
+  name: string;
+  text: string;
+  type: string; // "Ability", "Poké-Power", ...
+}
+
+export interface CardAttack {
+  name: string;
+  cost?: string[]; // energy types, e.g. ["Fire", "Colorless"]
+  convertedEnergyCost?: number;
+  damage?: string; // "30", "50+", "" for no damage
+  text?: string;
+}
+
+export interface CardTypeModifier {
+  type: string;
+  value: string; // "×2", "-30"
+}
+
+// Formats a card is "Legal" or "Banned" in; missing means not legal
+export interface CardLegalities {
+  standard?: string;
+  expanded?: string;
+  unlimited?: string;
+}
+
+// USD prices for one printing, as returned by pokemontcg.io
+export interface TcgPlayerPrice {
+  low?: number | null;
+  mid?: number | null;
+  high?: number | null;
+  market?: number | null;
+  directLow?: number | null;
+}
+
+// Only the printings a card actually has are present
+export interface TcgPlayerPrices {
+  normal?: TcgPlayerPrice;
+  holofoil?: TcgPlayerPrice;
+  reverseHolofoil?: TcgPlayerPrice;
+  "1stEditionNormal"?: TcgPlayerPrice;
+  "1stEditionHolofoil"?: TcgPlayerPrice;
+}
+
+export interface TcgPlayerInfo {
+  url?: string;
+  updatedAt?: string; // YYYY/MM/DD
+  prices?: TcgPlayerPrices;
 }
 
 export interface CardFilters {
-  set?: string;
+  set?: string; // set id, e.g. "sv3pt5"
+  setCode?: string; // PTCGO / Live set code, e.g. "OBF"
+  number?: string; // collector number within the set, e.g. "125"
+  series?: string;
   rarity?: string;
+  supertype?: string;
   type?: string;
+  regulationMark?: string;
+  releasedAfter?: string; // YYYY-MM-DD, inclusive
+  releasedBefore?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface CardSet {
+  id: string;
+  name: string;
+  series: string;
+  printedTotal?: number;
+  total?: number;
+  ptcgoCode?: string;
+  releaseDate?: string; // YYYY/MM/DD
+  images?: {
+    symbol: string;
+    logo: string;
+  };
 }
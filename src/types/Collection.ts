@@ -0,0 +1,33 @@
+import type { TcgPlayerPrices } from "./Card";
+
+// Card condition on the usual TCGplayer scale
+export type CardCondition = "NM" | "LP" | "MP" | "HP" | "DMG";
+
+// Printings are named after the TCGplayer price keys
+export type CardVariant = keyof TcgPlayerPrices;
+
+export interface CardGrading {
+  company: string; // PSA, BGS, CGC, ...
+  grade: string; // kept as text: "10", "9.5", "Authentic"
+  certNumber?: string;
+}
+
+// One line of the collection: `quantity` identical copies of a card
+export interface OwnedCopy {
+  id: string;
+  cardId: string;
+  quantity: number;
+  condition: CardCondition;
+  variant: CardVariant;
+  language: string; // ISO 639-1, e.g. "en", "ja"
+  grading?: CardGrading;
+  notes?: string;
+  addedAt: string;
+  updatedAt: string;
+}
+
+// Owned copies that no binder slot accounts for yet
+export interface UnplacedCopy {
+  copy: OwnedCopy;
+  unplaced: number;
+}
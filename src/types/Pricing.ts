@@ -0,0 +1,14 @@
+import type { CardVariant } from "./Collection";
+
+export interface SnapshotPrice {
+  cardId: string;
+  variant: CardVariant;
+  price: number;
+}
+
+// A binder's market value at one point in time
+export interface ValueSnapshot {
+  takenAt: string;
+  total: number;
+  prices: SnapshotPrice[]; // one per card and printing
+}
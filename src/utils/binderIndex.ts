@@ -0,0 +1,96 @@
+import type { BinderLayout } from "../types/Binder";
+import type { PokemonCard } from "../types/Card";
+
+export interface CardLocation {
+  binderId: string;
+  binderName: string;
+  slotIndex: number; // index into cardPositions
+  page: number; // 1-based, like the page navigation
+  slot: number; // 1-based position within the page
+}
+
+export interface CardIndexEntry {
+  cardId: string;
+  name: string;
+  setName: string;
+  number: string;
+  image: string | null;
+  locations: CardLocation[];
+}
+
+// Where every card sits across all binders, keyed by card id. Names come
+// from each binder's card snapshot, falling back to `cards`.
+export const buildCardIndex = (
+  binders: BinderLayout[],
+  cards: Map<string, PokemonCard>
+): Map<string, CardIndexEntry> => {
+  const index = new Map<string, CardIndexEntry>();
+
+  for (const binder of binders) {
+    const pageSize = binder.dimensions.rows * binder.dimensions.cols;
+    const stored = binder.cardData?.cards || {};
+
+    binder.cardPositions.forEach((pos, slotIndex) => {
+      // Planned slots are reserved, not holding anything yet
+      if (!pos.cardId || pos.status === "planned") return;
+
+      let entry = index.get(pos.cardId);
+      if (!entry) {
+        const card = cards.get(pos.cardId) || stored[pos.cardId];
+        entry = {
+          cardId: pos.cardId,
+          name: card?.name || pos.cardId,
+          setName: card?.set.name || "",
+          number: card?.number || "",
+          image: card?.images.small || null,
+          locations: [],
+        };
+        index.set(pos.cardId, entry);
+      }
+      entry.locations.push({
+        binderId: binder.id,
+        binderName: binder.name,
+        slotIndex,
+        page: Math.floor(slotIndex / pageSize) + 1,
+        slot: (slotIndex % pageSize) + 1,
+      });
+    });
+  }
+
+  return index;
+};
+
+// Entries matching a name or card id, best match first: exact name, then
+// names starting with the term, then anything containing it
+export const searchCardIndex = (
+  index: Map<string, CardIndexEntry>,
+  term: string
+): CardIndexEntry[] => {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return [];
+
+  const rank = (entry: CardIndexEntry) => {
+    const name = entry.name.toLowerCase();
+    if (name === needle || entry.cardId.toLowerCase() === needle) return 0;
+    return name.startsWith(needle) ? 1 : 2;
+  };
+
+  return [...index.values()]
+    .filter(
+      (entry) =>
+        entry.name.toLowerCase().includes(needle) ||
+        entry.cardId.toLowerCase().includes(needle)
+    )
+    .sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name));
+};
+
+// Cards placed in more than one slot, in one binder or across several
+export const findDuplicateCards = (
+  index: Map<string, CardIndexEntry>
+): CardIndexEntry[] =>
+  [...index.values()]
+    .filter((entry) => entry.locations.length > 1)
+    .sort(
+      (a, b) =>
+        b.locations.length - a.locations.length || a.name.localeCompare(b.name)
+    );
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import type { BinderLayout } from "../types/Binder";
+import type { PokemonCard } from "../types/Card";
+import { addCardsToBinder, placeImportEntries } from "./binderPlacement";
+
+const card = (id: string, name: string) => ({ id, name } as PokemonCard);
+
+// One 1×2 page: an owned Charizard and a reserved Pikachu, nothing free
+const fullBinder: BinderLayout = {
+  schemaVersion: 2,
+  id: "binder-1",
+  name: "Full",
+  dimensions: { rows: 1, cols: 2 },
+  cardPositions: [
+    { cardId: "base1-4", row: 0, col: 0, isEmpty: false },
+    {
+      cardId: "base1-58",
+      row: 0,
+      col: 1,
+      isEmpty: false,
+      status: "planned",
+    },
+  ],
+  template: "custom",
+  maxPage: 1,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+};
+
+describe("addCardsToBinder", () => {
+  it("reports the input index of each card that didn't fit", () => {
+    const result = addCardsToBinder(fullBinder, [
+      "base1-46",
+      "base1-58",
+      "base1-46",
+    ]);
+
+    expect(result.placedIndexes).toEqual([1]);
+    expect(result.unplaced).toEqual(["base1-46", "base1-46"]);
+    expect(result.unplacedIndexes).toEqual([0, 2]);
+  });
+});
+
+describe("placeImportEntries", () => {
+  it("reports the entries that failed when a later one fills a planned slot", () => {
+    const { cardPositions, unplaced } = placeImportEntries(fullBinder, [
+      { line: 2, card: card("base1-46", "Charmander") },
+      { line: 3, card: card("base1-58", "Pikachu") },
+    ]);
+
+    expect(cardPositions[1].status).toBe("owned");
+    expect(unplaced).toEqual([
+      {
+        line: 2,
+        text: "Charmander (base1-46)",
+        reason: "Binder is full (max 1 pages)",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,285 @@
+import type {
+  BinderLayout,
+  CardPosition,
+  ResolvedImportEntry,
+  UnresolvedImportEntry,
+} from "../types/Binder";
+
+// Create empty slots for a page
+export const createEmptyPage = (rows: number, cols: number): CardPosition[] => {
+  return Array.from({ length: rows * cols }, (_, i) => ({
+    cardId: null,
+    row: Math.floor(i / cols),
+    col: i % cols,
+    isEmpty: true,
+  }));
+};
+
+export interface PlacementResult {
+  cardPositions: CardPosition[];
+  placedIndexes: number[]; // slot index for each placed card, in input order
+  unplaced: string[]; // card ids that didn't fit before maxPage
+  unplacedIndexes: number[]; // input index of each card that didn't fit
+}
+
+// Place cards the way adding from search does. A checklist slot reserved
+// for the same card is marked owned first; otherwise the card takes the
+// first empty slot on the preferred page, then the first empty slot
+// anywhere, then a new page (up to the binder's maxPage). Copies of the same
+// card therefore land in consecutive slots whenever there's room.
+export const addCardsToBinder = (
+  binder: BinderLayout,
+  cardIds: string[],
+  preferredPage: number = 1
+): PlacementResult => {
+  const { rows, cols } = binder.dimensions;
+  const pageSize = rows * cols;
+  const maxPage = binder.maxPage || 1;
+  let cardPositions = [...binder.cardPositions];
+  const placedIndexes: number[] = [];
+  const unplaced: string[] = [];
+  const unplacedIndexes: number[] = [];
+
+  for (const [inputIndex, cardId] of cardIds.entries()) {
+    const plannedIndex = cardPositions.findIndex(
+      (pos) => pos.cardId === cardId && pos.status === "planned"
+    );
+    if (plannedIndex !== -1) {
+      cardPositions[plannedIndex] = {
+        ...cardPositions[plannedIndex],
+        status: "owned",
+      };
+      placedIndexes.push(plannedIndex);
+      continue;
+    }
+
+    let index = findEmptySlot(
+      cardPositions,
+      (preferredPage - 1) * pageSize,
+      pageSize
+    );
+    if (index === -1)
+      index = findEmptySlot(cardPositions, 0, cardPositions.length);
+
+    if (index === -1) {
+      if (cardPositions.length / pageSize >= maxPage) {
+        unplaced.push(cardId);
+        unplacedIndexes.push(inputIndex);
+        continue;
+      }
+      index = cardPositions.length;
+      cardPositions = [...cardPositions, ...createEmptyPage(rows, cols)];
+    }
+
+    cardPositions[index] = { ...cardPositions[index], cardId, isEmpty: false };
+    placedIndexes.push(index);
+  }
+
+  return { cardPositions, placedIndexes, unplaced, unplacedIndexes };
+};
+
+// Put a card at an exact slot, growing the binder to reach that page.
+// Returns null when the slot is beyond maxPage.
+export const placeCardAt = (
+  binder: BinderLayout,
+  cardPositions: CardPosition[],
+  index: number,
+  cardId: string
+): CardPosition[] | null => {
+  const { rows, cols } = binder.dimensions;
+  const pageSize = rows * cols;
+  const maxPage = binder.maxPage || 1;
+
+  if (index < 0 || Math.floor(index / pageSize) + 1 > maxPage) return null;
+
+  let positions = [...cardPositions];
+  while (positions.length <= index) {
+    positions = [...positions, ...createEmptyPage(rows, cols)];
+  }
+  positions[index] = { ...positions[index], cardId, isEmpty: false };
+  return positions;
+};
+
+// Swap what two slots hold. Coordinates belong to the pocket, so row/col
+// stay put while the card, rotation and any other slot data move.
+export const swapSlots = (
+  cardPositions: CardPosition[],
+  a: number,
+  b: number
+): CardPosition[] => {
+  const positions = [...cardPositions];
+  const first = cardPositions[a];
+  const second = cardPositions[b];
+  positions[a] = { ...second, row: first.row, col: first.col };
+  positions[b] = { ...first, row: second.row, col: second.col };
+  return positions;
+};
+
+// Place imported cards. Entries pinned to a free slot on a page that fits go
+// there first; everything else fills free slots like addCardsToBinder.
+export const placeImportEntries = (
+  binder: BinderLayout,
+  entries: ResolvedImportEntry[],
+  preferredPage: number = 1
+): { cardPositions: CardPosition[]; unplaced: UnresolvedImportEntry[] } => {
+  const { rows, cols } = binder.dimensions;
+  let cardPositions = binder.cardPositions;
+  const floating: ResolvedImportEntry[] = [];
+
+  for (const entry of entries) {
+    const position = entry.position;
+    const index = position
+      ? (position.page - 1) * rows * cols + position.row * cols + position.col
+      : -1;
+    const placed =
+      position &&
+      position.row < rows &&
+      position.col < cols &&
+      !(index < cardPositions.length && !cardPositions[index].isEmpty)
+        ? placeCardAt(binder, cardPositions, index, entry.card.id)
+        : null;
+
+    if (placed) {
+      cardPositions = placed;
+    } else {
+      floating.push(entry);
+    }
+  }
+
+  const result = addCardsToBinder(
+    { ...binder, cardPositions },
+    floating.map((entry) => entry.card.id),
+    preferredPage
+  );
+
+  return {
+    cardPositions: result.cardPositions,
+    unplaced: result.unplacedIndexes
+      .map((index) => floating[index])
+      .map((entry) => ({
+        line: entry.line,
+        text: `${entry.card.name} (${entry.card.id})`,
+        reason: `Binder is full (max ${binder.maxPage || 1} pages)`,
+      })),
+  };
+};
+
+const findEmptySlot = (
+  positions: CardPosition[],
+  start: number,
+  count: number
+): number => {
+  for (let i = start; i < start + count && i < positions.length; i++) {
+    if (positions[i].isEmpty) return i;
+  }
+  return -1;
+};
+
+// What a slot holds, without the pocket coordinates
+export type SlotContent = Omit<CardPosition, "row" | "col">;
+
+export const EMPTY_SLOT: SlotContent = { cardId: null, isEmpty: true };
+
+export const contentOf = (pos: CardPosition): SlotContent => ({
+  cardId: pos.cardId,
+  rotation: pos.rotation,
+  isEmpty: pos.isEmpty,
+  status: pos.status,
+  copyId: pos.copyId,
+});
+
+// Grow the binder by whole pages until it has at least `length` slots.
+// Null when that would go past maxPage.
+const ensureSlots = (
+  binder: BinderLayout,
+  cardPositions: CardPosition[],
+  length: number
+): CardPosition[] | null => {
+  const { rows, cols } = binder.dimensions;
+  if (length > rows * cols * (binder.maxPage || 1)) return null;
+
+  let positions = cardPositions;
+  while (positions.length < length) {
+    positions = [...positions, ...createEmptyPage(rows, cols)];
+  }
+  return positions;
+};
+
+// Empty the given slots. A checklist reservation goes with the card.
+export const clearSlots = (
+  cardPositions: CardPosition[],
+  indexes: Iterable<number>
+): CardPosition[] => {
+  const positions = [...cardPositions];
+  for (const index of indexes) {
+    const cleared: CardPosition = { ...positions[index], ...EMPTY_SLOT };
+    delete cleared.status;
+    delete cleared.copyId;
+    positions[index] = cleared;
+  }
+  return positions;
+};
+
+// Move the selected slots, in binder order, into consecutive slots starting
+// at `target`. Whatever was in the way takes over the slots they left, so no
+// card is lost. Null when the block would run past maxPage.
+export const moveSlotsAsBlock = (
+  binder: BinderLayout,
+  indexes: Iterable<number>,
+  target: number
+): CardPosition[] | null => {
+  const sources = [...indexes].sort((a, b) => a - b);
+  const positions = ensureSlots(
+    binder,
+    binder.cardPositions,
+    target + sources.length
+  );
+  if (!positions) return null;
+
+  const destinations = sources.map((_, offset) => target + offset);
+  const moving = sources.map((index) => contentOf(positions[index]));
+  const displaced = destinations
+    .filter((index) => !sources.includes(index))
+    .map((index) => contentOf(positions[index]));
+  const freed = sources.filter((index) => !destinations.includes(index));
+
+  const result = [...positions];
+  const place = (index: number, content: SlotContent) => {
+    result[index] = {
+      ...content,
+      row: positions[index].row,
+      col: positions[index].col,
+    };
+  };
+  freed.forEach((index, i) => place(index, displaced[i]));
+  destinations.forEach((index, i) => place(index, moving[i]));
+  return result;
+};
+
+// Open `count` empty slots at `index`, pushing everything after it forward
+// (across pages). Trailing empty slots absorb the shift first; otherwise new
+// pages are added. Null when the cards would no longer fit under maxPage.
+export const insertEmptySlots = (
+  binder: BinderLayout,
+  index: number,
+  count: number
+): CardPosition[] | null => {
+  const contents = binder.cardPositions.map(contentOf);
+  contents.splice(index, 0, ...Array.from({ length: count }, () => EMPTY_SLOT));
+
+  while (
+    contents.length > binder.cardPositions.length &&
+    contents[contents.length - 1].isEmpty
+  ) {
+    contents.pop();
+  }
+
+  const positions = ensureSlots(binder, binder.cardPositions, contents.length);
+  if (!positions) return null;
+
+  return positions.map((pos, i) => ({
+    ...(contents[i] || EMPTY_SLOT),
+    row: pos.row,
+    col: pos.col,
+  }));
+};
@@ -0,0 +1,210 @@
+import type { BinderLayout, CardPosition } from "../types/Binder";
+import type { PokemonCard } from "../types/Card";
+import { EMPTY_SLOT, contentOf } from "./binderPlacement";
+import type { SlotContent } from "./binderPlacement";
+
+export type BinderSortKey = "set" | "dex" | "type" | "rarity" | "name";
+
+// keep-gaps: empty slots stay where they are, cards fill the rest in order
+// compact: cards first, empty slots at the end
+// page-per-group: like compact, but each set/generation/... starts a page
+export type BinderSortLayout = "keep-gaps" | "compact" | "page-per-group";
+
+export const SORT_KEY_LABELS: Record<BinderSortKey, string> = {
+  set: "Set, then collector number",
+  dex: "National Pokédex number",
+  type: "Type",
+  rarity: "Rarity",
+  name: "Name",
+};
+
+export const GROUP_LABELS: Record<BinderSortKey, string> = {
+  set: "set",
+  dex: "generation",
+  type: "type",
+  rarity: "rarity",
+  name: "starting letter",
+};
+
+export type BinderSortResult =
+  | { ok: true; cardPositions: CardPosition[]; unknownCards: number }
+  | { ok: false; error: string };
+
+const TYPE_ORDER = [
+  "Grass",
+  "Fire",
+  "Water",
+  "Lightning",
+  "Psychic",
+  "Fighting",
+  "Darkness",
+  "Metal",
+  "Fairy",
+  "Dragon",
+  "Colorless",
+];
+
+const RARITY_ORDER = [
+  "Common",
+  "Uncommon",
+  "Rare",
+  "Rare Holo",
+  "Promo",
+  "Double Rare",
+  "Rare Holo V",
+  "Rare Holo VMAX",
+  "Rare Holo VSTAR",
+  "Ultra Rare",
+  "Rare Ultra",
+  "ACE SPEC Rare",
+  "Illustration Rare",
+  "Special Illustration Rare",
+  "Rare Rainbow",
+  "Rare Secret",
+  "Hyper Rare",
+];
+
+// Last national dex number of each generation
+const GENERATION_ENDS = [151, 251, 386, 493, 649, 721, 809, 905, 1025];
+
+// Rank in a known order; unknown values sort after known ones
+const rankIn = (order: string[], value?: string) => {
+  const index = value ? order.indexOf(value) : -1;
+  return index === -1 ? order.length : index;
+};
+
+// "25" < "125" < "TG05"; numbers compare numerically, then as text
+const collectorNumber = (number: string) => {
+  const value = parseInt(number, 10);
+  return Number.isNaN(value) ? Infinity : value;
+};
+
+export const compareCollectorNumbers = (a: string, b: string) =>
+  collectorNumber(a) - collectorNumber(b) ||
+  a.localeCompare(b, undefined, { numeric: true });
+
+const dexNumber = (card: PokemonCard) =>
+  card.nationalPokedexNumbers?.[0] ?? Infinity;
+
+const compareBySet = (a: PokemonCard, b: PokemonCard) =>
+  (a.set.releaseDate || "").localeCompare(b.set.releaseDate || "") ||
+  a.set.id.localeCompare(b.set.id) ||
+  compareCollectorNumbers(a.number, b.number);
+
+const COMPARATORS: Record<
+  BinderSortKey,
+  (a: PokemonCard, b: PokemonCard) => number
+> = {
+  set: compareBySet,
+  dex: (a, b) =>
+    dexNumber(a) - dexNumber(b) ||
+    a.name.localeCompare(b.name) ||
+    compareBySet(a, b),
+  type: (a, b) =>
+    rankIn(TYPE_ORDER, a.types?.[0]) - rankIn(TYPE_ORDER, b.types?.[0]) ||
+    a.name.localeCompare(b.name) ||
+    compareBySet(a, b),
+  rarity: (a, b) =>
+    rankIn(RARITY_ORDER, a.rarity) - rankIn(RARITY_ORDER, b.rarity) ||
+    (a.rarity || "").localeCompare(b.rarity || "") ||
+    compareBySet(a, b),
+  name: (a, b) => a.name.localeCompare(b.name) || compareBySet(a, b),
+};
+
+const groupOf = (key: BinderSortKey, card: PokemonCard): string => {
+  switch (key) {
+    case "set":
+      return card.set.id;
+    case "dex": {
+      const dex = dexNumber(card);
+      const generation = GENERATION_ENDS.findIndex((end) => dex <= end);
+      return generation === -1 ? "other" : `gen-${generation + 1}`;
+    }
+    case "type":
+      return card.types?.[0] || card.supertype || "other";
+    case "rarity":
+      return card.rarity || "other";
+    case "name":
+      return card.name.charAt(0).toUpperCase();
+  }
+};
+
+// Reorder every filled slot by `key`. Slot data (rotation etc.) moves with
+// its card. Cards whose details haven't loaded go last, in their current
+// order. Fails when page-per-group would need more than maxPage pages.
+export const sortBinder = (
+  binder: BinderLayout,
+  cards: Map<string, PokemonCard>,
+  key: BinderSortKey,
+  layout: BinderSortLayout
+): BinderSortResult => {
+  const { rows, cols } = binder.dimensions;
+  const pageSize = rows * cols;
+  const maxPage = binder.maxPage || 1;
+
+  const filled = binder.cardPositions
+    .map((pos, index) => ({
+      content: contentOf(pos),
+      card: pos.cardId ? cards.get(pos.cardId) : undefined,
+      index,
+    }))
+    .filter((entry) => entry.content.cardId);
+  // Placeholders have no set yet
+  const isKnown = (card?: PokemonCard): card is PokemonCard =>
+    !!card && !!card.set.id;
+
+  const sorted = [...filled].sort((a, b) => {
+    if (isKnown(a.card) && isKnown(b.card)) {
+      return COMPARATORS[key](a.card, b.card) || a.index - b.index;
+    }
+    return (
+      Number(!isKnown(a.card)) - Number(!isKnown(b.card)) || a.index - b.index
+    );
+  });
+  const unknownCards = sorted.filter((entry) => !isKnown(entry.card)).length;
+
+  let contents: SlotContent[];
+  if (layout === "keep-gaps") {
+    let next = 0;
+    contents = binder.cardPositions.map((pos) =>
+      pos.cardId ? sorted[next++].content : contentOf(pos)
+    );
+  } else {
+    contents = [];
+    let previousGroup: string | null = null;
+    for (const entry of sorted) {
+      const group = isKnown(entry.card) ? groupOf(key, entry.card) : "unknown";
+      if (
+        layout === "page-per-group" &&
+        previousGroup !== null &&
+        group !== previousGroup
+      ) {
+        while (contents.length % pageSize !== 0) contents.push(EMPTY_SLOT);
+      }
+      contents.push(entry.content);
+      previousGroup = group;
+    }
+  }
+
+  const pages = Math.max(
+    Math.ceil(contents.length / pageSize),
+    Math.ceil(binder.cardPositions.length / pageSize)
+  );
+  if (pages > maxPage) {
+    return {
+      ok: false,
+      error: `This layout needs ${pages} pages but the binder holds at most ${maxPage}.`,
+    };
+  }
+
+  const cardPositions = Array.from({ length: pages * pageSize }, (_, i) => {
+    const content = contents[i] || EMPTY_SLOT;
+    return {
+      ...content,
+      isEmpty: !content.cardId,
+      row: Math.floor((i % pageSize) / cols),
+      col: i % cols,
+    };
+  });
+  return { ok: true, cardPositions, unknownCards };
+};
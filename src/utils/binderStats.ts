@@ -0,0 +1,45 @@
+import type { BinderLayout } from "../types/Binder";
+import type { PokemonCard } from "../types/Card";
+
+export interface SetCompletion {
+  setId: string;
+  setName: string;
+  owned: number;
+  total: number; // planned + owned slots for this set
+  percent: number;
+}
+
+// Completion of each set with planned slots in the binder, least complete
+// first. Slots without a status (ordinary binders) aren't counted.
+export const getSetCompletion = (
+  binder: BinderLayout,
+  cards: Map<string, PokemonCard>
+): SetCompletion[] => {
+  const bySet = new Map<string, SetCompletion>();
+
+  for (const pos of binder.cardPositions) {
+    if (!pos.cardId || !pos.status) continue;
+    const card = cards.get(pos.cardId);
+    // Placeholder cards have no set yet; fall back to the id prefix
+    const setId = card?.set.id || pos.cardId.split("-")[0];
+    const entry = bySet.get(setId) || {
+      setId,
+      setName: card?.set.name || setId,
+      owned: 0,
+      total: 0,
+      percent: 0,
+    };
+    entry.total++;
+    if (pos.status === "owned") entry.owned++;
+    bySet.set(setId, entry);
+  }
+
+  return [...bySet.values()]
+    .map((entry) => ({
+      ...entry,
+      percent: Math.floor((entry.owned / entry.total) * 100),
+    }))
+    .sort(
+      (a, b) => a.percent - b.percent || a.setName.localeCompare(b.setName)
+    );
+};
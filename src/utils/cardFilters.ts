@@ -0,0 +1,60 @@
+import type { CardFilters, PokemonCard } from "../types/Card";
+
+// In-memory equivalent of the filter clauses PokemonTCGService sends to the API
+export const matchesCardFilters = (
+  card: PokemonCard,
+  filters: CardFilters
+): boolean => {
+  const same = (a?: string, b?: string) =>
+    (a || "").toLowerCase() === (b || "").toLowerCase();
+  const releaseDate = (card.set.releaseDate || "").replace(/\//g, "-");
+
+  if (filters.set && !same(card.set.id, filters.set)) return false;
+  if (filters.setCode && !same(card.set.ptcgoCode, filters.setCode)) {
+    return false;
+  }
+  if (filters.number && !same(card.number, filters.number)) return false;
+  if (filters.series && !same(card.set.series, filters.series)) return false;
+  if (filters.rarity && !same(card.rarity, filters.rarity)) return false;
+  if (filters.supertype && !same(card.supertype, filters.supertype)) {
+    return false;
+  }
+  if (
+    filters.type &&
+    !(card.types || []).some((type) => same(type, filters.type))
+  ) {
+    return false;
+  }
+  if (
+    filters.regulationMark &&
+    !same(card.regulationMark, filters.regulationMark)
+  ) {
+    return false;
+  }
+  if (filters.releasedAfter && releaseDate < filters.releasedAfter) {
+    return false;
+  }
+  if (filters.releasedBefore && releaseDate > filters.releasedBefore) {
+    return false;
+  }
+  return true;
+};
+
+// Name matching shared by the offline catalog and local providers
+export const matchesCardName = (
+  card: PokemonCard,
+  query: string,
+  exact: boolean = false
+): boolean => {
+  const name = card.name.toLowerCase();
+  const wanted = query.trim().toLowerCase();
+  return exact ? name === wanted : name.startsWith(wanted);
+};
+
+// Newest sets first, then alphabetical - mirrors the API's default ordering
+export const compareByReleaseThenName = (
+  a: PokemonCard,
+  b: PokemonCard
+): number =>
+  (b.set.releaseDate || "").localeCompare(a.set.releaseDate || "") ||
+  a.name.localeCompare(b.name);
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, toCsv } from "./csv";
+
+describe("parseCsv", () => {
+  it("records the source line each row starts on", () => {
+    const text = [
+      "card_id,name",
+      "base1-4,Charizard",
+      "",
+      'base1-58,"Pikachu',
+      'Yellow cheeks"',
+      "\r",
+      "sv3-125,Charizard ex",
+    ].join("\n");
+
+    expect(parseCsv(text)).toEqual([
+      { line: 1, values: ["card_id", "name"] },
+      { line: 2, values: ["base1-4", "Charizard"] },
+      { line: 4, values: ["base1-58", "Pikachu\nYellow cheeks"] },
+      { line: 7, values: ["sv3-125", "Charizard ex"] },
+    ]);
+  });
+
+  it("counts CRLF line endings once", () => {
+    expect(parseCsv('a\r\n\r\n"b\r\nc",d\r\ne').map((row) => row.line)).toEqual(
+      [1, 3, 5]
+    );
+  });
+
+  it("reads back what toCsv writes", () => {
+    const rows = [
+      ["id", "note"],
+      ["base1-4", 'Says "hi", twice\nand more'],
+    ];
+
+    expect(parseCsv(toCsv(rows)).map((row) => row.values)).toEqual(rows);
+  });
+});
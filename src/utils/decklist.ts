@@ -0,0 +1,55 @@
+import type { UnresolvedImportEntry } from "../types/Binder";
+
+export interface DecklistLine {
+  line: number;
+  text: string;
+  quantity: number;
+  name: string;
+  setCode: string;
+  number: string;
+}
+
+// "Pokémon: 12", "Trainer: 36", "Energy: 12", "Total Cards: 60"
+const SECTION_HEADER =
+  /^(pok[eé]mon|trainers?|energy|total cards)\s*(:|-)\s*\d*$/i;
+
+// "4 Charizard ex OBF 125", "1 Iono PAL 185", "2 Pikachu PR-SV 27".
+// PTCGO exports prefix lines with "* ".
+const CARD_LINE =
+  /^\*?\s*(\d+)x?\s+(.+?)\s+([A-Za-z0-9]{2,5}(?:-[A-Za-z0-9]+)?)\s+([A-Za-z]*\d+[A-Za-z]*)$/;
+
+// Split a PTCG Live / PTCGO decklist into card lines. Blank lines and section
+// headers are skipped; anything else that doesn't parse is reported.
+export const parseDecklist = (
+  text: string
+): { lines: DecklistLine[]; errors: UnresolvedImportEntry[] } => {
+  const lines: DecklistLine[] = [];
+  const errors: UnresolvedImportEntry[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const trimmed = raw.trim();
+    if (!trimmed || SECTION_HEADER.test(trimmed)) return;
+
+    const match = CARD_LINE.exec(trimmed);
+    const quantity = match ? parseInt(match[1], 10) : 0;
+    if (!match || quantity < 1) {
+      errors.push({
+        line: index + 1,
+        text: trimmed,
+        reason: 'Expected "<count> <name> <set code> <number>"',
+      });
+      return;
+    }
+
+    lines.push({
+      line: index + 1,
+      text: trimmed,
+      quantity,
+      name: match[2],
+      setCode: match[3].toUpperCase(),
+      number: match[4],
+    });
+  });
+
+  return { lines, errors };
+};
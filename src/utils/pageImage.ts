@@ -0,0 +1,215 @@
+import type { BinderLayout, CardPosition } from "../types/Binder";
+import type { PokemonCard } from "../types/Card";
+import { CardCatalogService } from "../services/CardCatalogService";
+
+// Pixel sizes for a full-size page; the contact sheet draws pages at half size
+const CARD_WIDTH = 245; // pokemontcg.io small image width
+const CARD_HEIGHT = 342;
+const GAP = 12;
+const PADDING = 24;
+const HEADER_HEIGHT = 48;
+const CONTACT_SHEET_SCALE = 0.5;
+
+const BACKGROUND = "#232946";
+const ACCENT = "#7f53ac";
+const TEXT = "#f8f9fa";
+const MUTED = "#bdbdbd";
+
+// Load an image the canvas can export. Remote images need CORS; when that
+// fails, fall back to the copy in the offline catalog (a same-origin blob).
+const loadCardImage = async (url: string): Promise<HTMLImageElement | null> => {
+  const load = (src: string) =>
+    new Promise<HTMLImageElement | null>((resolve) => {
+      const img = new Image();
+      img.crossOrigin = "anonymous";
+      img.onload = () => resolve(img);
+      img.onerror = () => resolve(null);
+      img.src = src;
+    });
+
+  const remote = await load(url);
+  if (remote) return remote;
+
+  const offlineUrl = await CardCatalogService.getImageUrl(url);
+  if (!offlineUrl) return null;
+  const offline = await load(offlineUrl);
+  URL.revokeObjectURL(offlineUrl);
+  return offline;
+};
+
+const roundedRect = (
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius: number
+) => {
+  ctx.beginPath();
+  ctx.moveTo(x + radius, y);
+  ctx.arcTo(x + width, y, x + width, y + height, radius);
+  ctx.arcTo(x + width, y + height, x, y + height, radius);
+  ctx.arcTo(x, y + height, x, y, radius);
+  ctx.arcTo(x, y, x + width, y, radius);
+  ctx.closePath();
+};
+
+const pageSizePx = (binder: BinderLayout, scale: number) => {
+  const { rows, cols } = binder.dimensions;
+  return {
+    width: (PADDING * 2 + cols * CARD_WIDTH + (cols - 1) * GAP) * scale,
+    height:
+      (HEADER_HEIGHT + PADDING * 2 + rows * CARD_HEIGHT + (rows - 1) * GAP) *
+      scale,
+  };
+};
+
+const drawPage = (
+  ctx: CanvasRenderingContext2D,
+  binder: BinderLayout,
+  pageNumber: number,
+  slots: CardPosition[],
+  cards: Map<string, PokemonCard>,
+  images: Map<string, HTMLImageElement | null>,
+  originX: number,
+  originY: number,
+  scale: number
+) => {
+  const { cols } = binder.dimensions;
+  const { width, height } = pageSizePx(binder, scale);
+  const s = (value: number) => value * scale;
+
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(originX, originY, width, height);
+
+  ctx.fillStyle = TEXT;
+  ctx.font = `600 ${s(20)}px "Segoe UI", sans-serif`;
+  ctx.textBaseline = "middle";
+  ctx.textAlign = "left";
+  ctx.fillText(binder.name, originX + s(PADDING), originY + s(PADDING + 12));
+  ctx.fillStyle = MUTED;
+  ctx.textAlign = "right";
+  ctx.fillText(
+    `Page ${pageNumber}`,
+    originX + width - s(PADDING),
+    originY + s(PADDING + 12)
+  );
+
+  slots.forEach((pos, index) => {
+    const x = originX + s(PADDING + (index % cols) * (CARD_WIDTH + GAP));
+    const y =
+      originY +
+      s(
+        HEADER_HEIGHT + PADDING + Math.floor(index / cols) * (CARD_HEIGHT + GAP)
+      );
+    const card = pos.cardId ? cards.get(pos.cardId) : undefined;
+    const image = card?.images.small ? images.get(card.images.small) : null;
+
+    roundedRect(ctx, x, y, s(CARD_WIDTH), s(CARD_HEIGHT), s(12));
+    if (image) {
+      ctx.save();
+      ctx.clip();
+      // Missing cards of a checklist binder are drawn faded
+      if (pos.status === "planned") ctx.globalAlpha = 0.35;
+      ctx.drawImage(image, x, y, s(CARD_WIDTH), s(CARD_HEIGHT));
+      ctx.restore();
+      return;
+    }
+
+    // Empty pocket, or a card whose image couldn't be loaded
+    ctx.fillStyle = "rgba(127, 83, 172, 0.12)";
+    ctx.fill();
+    ctx.strokeStyle = ACCENT;
+    ctx.lineWidth = s(2);
+    ctx.setLineDash(pos.cardId ? [] : [s(8), s(6)]);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    ctx.fillStyle = MUTED;
+    ctx.textAlign = "center";
+    ctx.font = `${s(16)}px "Segoe UI", sans-serif`;
+    ctx.fillText(
+      pos.cardId ? card?.name || pos.cardId : "Empty",
+      x + s(CARD_WIDTH / 2),
+      y + s(CARD_HEIGHT / 2),
+      s(CARD_WIDTH - 16)
+    );
+  });
+};
+
+// Draw one page at full size, or several pages as a half-size contact sheet
+export const renderBinderPages = async (
+  binder: BinderLayout,
+  cards: Map<string, PokemonCard>,
+  pageNumbers: number[]
+): Promise<HTMLCanvasElement> => {
+  const pageSize = binder.dimensions.rows * binder.dimensions.cols;
+  const slotsFor = (pageNumber: number) =>
+    binder.cardPositions.slice(
+      (pageNumber - 1) * pageSize,
+      pageNumber * pageSize
+    );
+
+  const urls = new Set<string>();
+  for (const pageNumber of pageNumbers) {
+    for (const pos of slotsFor(pageNumber)) {
+      const url = pos.cardId && cards.get(pos.cardId)?.images.small;
+      if (url) urls.add(url);
+    }
+  }
+  const images = new Map(
+    await Promise.all(
+      [...urls].map(async (url) => [url, await loadCardImage(url)] as const)
+    )
+  );
+
+  const scale = pageNumbers.length > 1 ? CONTACT_SHEET_SCALE : 1;
+  const sheetCols = Math.ceil(Math.sqrt(pageNumbers.length));
+  const sheetRows = Math.ceil(pageNumbers.length / sheetCols);
+  const page = pageSizePx(binder, scale);
+  const gutter = pageNumbers.length > 1 ? GAP : 0;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.ceil(sheetCols * page.width + (sheetCols + 1) * gutter);
+  canvas.height = Math.ceil(sheetRows * page.height + (sheetRows + 1) * gutter);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported in this browser");
+
+  ctx.fillStyle = "#1a1a2e";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  pageNumbers.forEach((pageNumber, i) => {
+    drawPage(
+      ctx,
+      binder,
+      pageNumber,
+      slotsFor(pageNumber),
+      cards,
+      images,
+      gutter + (i % sheetCols) * (page.width + gutter),
+      gutter + Math.floor(i / sheetCols) * (page.height + gutter),
+      scale
+    );
+  });
+
+  return canvas;
+};
+
+export const downloadCanvas = async (
+  canvas: HTMLCanvasElement,
+  fileName: string
+): Promise<void> => {
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/png")
+  );
+  if (!blob) throw new Error("Could not encode the page image");
+
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,35 @@
+import type { PokemonCard, TcgPlayerPrices } from "../types/Card";
+import type { CardVariant } from "../types/Collection";
+
+// Printing whose price stands for the card when the copy is unknown: the
+// holofoil when a card has both, since that's usually the one collected
+const DEFAULT_VARIANTS: CardVariant[] = [
+  "holofoil",
+  "normal",
+  "reverseHolofoil",
+];
+
+const priceFormat = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "USD",
+});
+
+const pricesOf = (card: PokemonCard): TcgPlayerPrices =>
+  card.tcgplayer?.prices || {};
+
+// First default printing the API has a market price for
+export const getDefaultVariant = (card: PokemonCard): CardVariant | null => {
+  const prices = pricesOf(card);
+  return (
+    DEFAULT_VARIANTS.find((variant) => prices[variant]?.market != null) || null
+  );
+};
+
+// TCGplayer market price of a printing, the default one unless a variant is
+// given. Null when the API has no price for it.
+export const getMarketPrice = (
+  card: PokemonCard,
+  variant: CardVariant | null = getDefaultVariant(card)
+): number | null => (variant ? pricesOf(card)[variant]?.market ?? null : null);
+
+export const formatPrice = (value: number): string => priceFormat.format(value);
@@ -0,0 +1,116 @@
+import type { BinderLayout } from "../types/Binder";
+import type { PokemonCard } from "../types/Card";
+import type { CardVariant, OwnedCopy } from "../types/Collection";
+import type { SnapshotPrice, ValueSnapshot } from "../types/Pricing";
+import { getDefaultVariant, getMarketPrice } from "./pricing";
+
+export interface SlotValue {
+  slotIndex: number;
+  page: number;
+  card: PokemonCard;
+  variant: CardVariant | null;
+  price: number | null;
+}
+
+export interface BinderValuation {
+  total: number;
+  pageTotals: number[]; // index 0 is page 1
+  slots: SlotValue[]; // every owned card, priced or not
+  pricedCount: number;
+}
+
+// Market value of every owned card in a binder. A slot linked to a
+// collection copy is priced as that copy's printing; otherwise the card's
+// default printing is used. Planned slots aren't owned, so they're skipped.
+export const valueBinder = (
+  binder: BinderLayout,
+  cards: Map<string, PokemonCard>,
+  copies: Map<string, OwnedCopy> = new Map()
+): BinderValuation => {
+  const pageSize = binder.dimensions.rows * binder.dimensions.cols;
+  const pageTotals = Array.from(
+    { length: Math.ceil(binder.cardPositions.length / pageSize) },
+    () => 0
+  );
+  const slots: SlotValue[] = [];
+  let total = 0;
+
+  binder.cardPositions.forEach((pos, slotIndex) => {
+    if (!pos.cardId || pos.status === "planned") return;
+    const card = cards.get(pos.cardId);
+    if (!card) return;
+
+    const copy = pos.copyId ? copies.get(pos.copyId) : undefined;
+    const variant = copy?.variant || getDefaultVariant(card);
+    const price = getMarketPrice(card, variant);
+    const page = Math.floor(slotIndex / pageSize) + 1;
+
+    slots.push({ slotIndex, page, card, variant, price });
+    if (price !== null) {
+      total += price;
+      pageTotals[page - 1] += price;
+    }
+  });
+
+  return {
+    total,
+    pageTotals,
+    slots,
+    pricedCount: slots.filter((slot) => slot.price !== null).length,
+  };
+};
+
+// One price per priced card and printing, the way snapshots store them
+export const collectPrices = (valuation: BinderValuation): SnapshotPrice[] => {
+  const prices = new Map<string, SnapshotPrice>();
+  for (const slot of valuation.slots) {
+    if (slot.price === null || !slot.variant) continue;
+    prices.set(`${slot.card.id}/${slot.variant}`, {
+      cardId: slot.card.id,
+      variant: slot.variant,
+      price: slot.price,
+    });
+  }
+  return [...prices.values()];
+};
+
+export interface PriceMove {
+  cardId: string;
+  variant: CardVariant;
+  before: number;
+  after: number;
+  percent: number; // signed change relative to `before`
+}
+
+// Cards whose current price differs by at least `threshold` percent from a
+// snapshot, biggest move first. Cards missing from either side are skipped.
+export const findPriceMoves = (
+  snapshot: ValueSnapshot,
+  valuation: BinderValuation,
+  threshold: number
+): PriceMove[] => {
+  const before = new Map(
+    snapshot.prices.map((entry) => [
+      `${entry.cardId}/${entry.variant}`,
+      entry.price,
+    ])
+  );
+
+  const moves: PriceMove[] = [];
+  for (const entry of collectPrices(valuation)) {
+    const old = before.get(`${entry.cardId}/${entry.variant}`);
+    if (old === undefined || old === 0) continue;
+
+    const percent = ((entry.price - old) / old) * 100;
+    if (Math.abs(percent) >= threshold) {
+      moves.push({
+        cardId: entry.cardId,
+        variant: entry.variant,
+        before: old,
+        after: entry.price,
+        percent,
+      });
+    }
+  }
+  return moves.sort((a, b) => Math.abs(b.percent) - Math.abs(a.percent));
+};
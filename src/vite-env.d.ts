@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_POKEMON_TCG_API_KEY?: string;
+  readonly VITE_CARD_PROVIDER?: "pokemontcg" | "local";
+  readonly VITE_LOCAL_CARD_DATA?: string; // path under public/data
+}